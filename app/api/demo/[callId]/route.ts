@@ -26,20 +26,10 @@ export async function GET(
     );
   }
 
+  // Read-only: this route is public and polled. Improvements start from Vapi's
+  // end-of-call-report webhook on the backend, not from here.
   const data = await res.json();
 
-  // Fire-and-forget improvement request when call ends
-  if (data.status === "ended") {
-    const backendUrl = process.env.BACKEND_URL;
-    if (backendUrl) {
-      fetch(`${backendUrl}/improve`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ callId }),
-      }).catch(() => {});
-    }
-  }
-
   return NextResponse.json({
     status: data.status,
     transcript: data.transcript,
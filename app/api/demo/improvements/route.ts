@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { backendHeaders } from "@/lib/backend";
 
 export async function GET(req: NextRequest) {
   const backendUrl = process.env.BACKEND_URL;
@@ -15,28 +16,25 @@ export async function GET(req: NextRequest) {
   try {
     // Fetch detailed improvement log (includes rawAnalysis + pipelineLog)
     const [logRes, healthRes] = await Promise.all([
-      fetch(`${backendUrl}/improvements/log`, {
-        headers: { "Content-Type": "application/json" },
-      }),
+      fetch(
+        `${backendUrl}/improvements/log${callId ? `?callId=${encodeURIComponent(callId)}` : ""}`,
+        {
+          headers: backendHeaders(req),
+        },
+      ),
       fetch(`${backendUrl}/health`, {
-        headers: { "Content-Type": "application/json" },
+        headers: backendHeaders(req),
       }),
     ]);
 
     const logData = logRes.ok ? await logRes.json() : { improvements: [] };
     const healthData = healthRes.ok ? await healthRes.json() : { tools: [] };
 
-    let improvements = logData.improvements || [];
+    const improvements = logData.improvements || [];
     const dynamicTools = (healthData.tools || []).filter(
       (t: { isDynamic?: boolean }) => t.isDynamic,
     );
 
-    if (callId) {
-      improvements = improvements.filter(
-        (i: { callId?: string }) => i.callId === callId,
-      );
-    }
-
     return NextResponse.json({ improvements, dynamicTools });
   } catch {
     return NextResponse.json(
@@ -1,6 +1,7 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { backendHeaders } from "@/lib/backend";
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   const backendUrl = process.env.BACKEND_URL;
 
   if (!backendUrl) {
@@ -12,7 +13,7 @@ export async function GET() {
 
   try {
     const res = await fetch(`${backendUrl}/state`, {
-      headers: { "Content-Type": "application/json" },
+      headers: backendHeaders(req),
     });
 
     if (!res.ok) {
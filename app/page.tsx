@@ -238,7 +238,20 @@ export default function DemoPage() {
     setResetSuccess(false);
     setError(null);
     try {
-      const res = await fetch("/api/demo/reset", { method: "POST" });
+      // Resetting needs an admin key; ask once per session and keep it
+      const reset = (key: string | null) =>
+        fetch("/api/demo/reset", {
+          method: "POST",
+          headers: key ? { Authorization: `Bearer ${key}` } : {},
+        });
+      let adminKey = sessionStorage.getItem("adminApiKey");
+      let res = await reset(adminKey);
+      if (res.status === 401 || res.status === 403) {
+        adminKey = window.prompt("Admin API key required to reset");
+        if (!adminKey) throw new Error("Reset cancelled: admin API key required");
+        res = await reset(adminKey);
+        if (res.ok) sessionStorage.setItem("adminApiKey", adminKey);
+      }
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || "Failed to reset");
       setResetSuccess(true);
@@ -0,0 +1,113 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+
+// --- Admin API keys + roles for the control endpoints ---
+// Keys are configured as ADMIN_API_KEYS=role:key,role:key and sent as
+// `Authorization: Bearer <key>` or `x-api-key`. Roles are ordered: a higher role
+// can do everything a lower one can.
+//   viewer   — read state, prompts, logs, conversations
+//   operator — trigger calls, improvements, brain tests, deliveries
+//   admin    — reset, edit prompts and tools, approve/rollback improvements
+
+export type AdminRole = "viewer" | "operator" | "admin";
+
+export interface AdminIdentity {
+  role: AdminRole;
+  keyId: string; // last 4 chars, safe to log
+}
+
+export type AuthedRequest = Request & { admin?: AdminIdentity };
+
+const ROLE_RANK: Record<AdminRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+interface ConfiguredKey {
+  role: AdminRole;
+  digest: Buffer;
+  keyId: string;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Parsed on each request so keys can be rotated via env without code changes
+function configuredKeys(): ConfiguredKey[] {
+  const keys: ConfiguredKey[] = [];
+  for (const entry of (process.env.ADMIN_API_KEYS || "").split(",")) {
+    const [role, ...rest] = entry.trim().split(":");
+    const key = rest.join(":").trim();
+    if (!key || !(role in ROLE_RANK)) continue;
+    keys.push({ role: role as AdminRole, digest: digest(key), keyId: key.slice(-4) });
+  }
+  return keys;
+}
+
+function authDisabled(): boolean {
+  return process.env.ADMIN_AUTH === "off";
+}
+
+function credentialFrom(req: Request): string | undefined {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice(7).trim();
+  const apiKey = req.headers["x-api-key"];
+  return (Array.isArray(apiKey) ? apiKey[0] : apiKey) || undefined;
+}
+
+export function identify(req: Request): AdminIdentity | undefined {
+  const given = credentialFrom(req);
+  if (!given) return undefined;
+  const givenDigest = digest(given);
+  // Digests are fixed-length, so timingSafeEqual never throws on length mismatch
+  const match = configuredKeys().find((k) => timingSafeEqual(k.digest, givenDigest));
+  return match ? { role: match.role, keyId: match.keyId } : undefined;
+}
+
+export function hasRole(identity: AdminIdentity | undefined, required: AdminRole): boolean {
+  return !!identity && ROLE_RANK[identity.role] >= ROLE_RANK[required];
+}
+
+// Params typed as plain strings so the route handler after it still sees
+// req.params.name as a string rather than Express's string | string[]
+export function requireRole(required: AdminRole): RequestHandler<Record<string, string>> {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (authDisabled()) return next();
+
+    // Fail closed: a deploy that forgot its keys refuses instead of exposing
+    // /reset. Local development opts into open endpoints with ADMIN_AUTH=off.
+    if (!configuredKeys().length) {
+      res.status(503).json({ error: "admin auth not configured (set ADMIN_API_KEYS, or ADMIN_AUTH=off for local development)" });
+      return;
+    }
+
+    const identity = identify(req);
+    if (!identity) {
+      console.warn(`[admin-auth] Rejected ${req.method} ${req.path}: ${credentialFrom(req) ? "unknown key" : "no credentials"} from ${req.ip}`);
+      res.status(401).json({ error: "unauthorized" });
+      return;
+    }
+    if (!hasRole(identity, required)) {
+      console.warn(`[admin-auth] Forbidden ${req.method} ${req.path}: ${identity.role} (…${identity.keyId}) needs ${required}`);
+      res.status(403).json({ error: "forbidden", role: identity.role, required });
+      return;
+    }
+
+    (req as AuthedRequest).admin = identity;
+    // Reads are frequent (dashboard polling); only log actions
+    if (req.method !== "GET") console.log(`[admin-auth] ${identity.role} (…${identity.keyId}) ${req.method} ${req.path}`);
+    next();
+  };
+}
+
+export function logAdminAuthConfig() {
+  if (authDisabled()) {
+    console.warn("[admin-auth] ADMIN_AUTH=off — control endpoints are public");
+    return;
+  }
+  const keys = configuredKeys();
+  if (!keys.length) {
+    console.warn("[admin-auth] No ADMIN_API_KEYS set — control endpoints will refuse all requests (ADMIN_AUTH=off opens them)");
+    return;
+  }
+  const counts = keys.reduce<Record<string, number>>((acc, k) => ({ ...acc, [k.role]: (acc[k.role] || 0) + 1 }), {});
+  console.log(`[admin-auth] ${Object.entries(counts).map(([role, n]) => `${n} ${role}`).join(", ")} key(s)`);
+}
@@ -0,0 +1,80 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type { ImprovementPlan } from "./self-improve.js";
+import { loadJson, saveJson } from "./storage.js";
+
+// --- Pending change sets awaiting operator approval ---
+// Enabled with IMPROVEMENT_APPROVAL=required. The analysis is stored as-is and
+// nothing touches Vapi or n8n until an operator approves it.
+
+export interface PendingChangeSet {
+  id: string;
+  token: string; // short code the operator types in WhatsApp
+  status: "pending" | "approved" | "rejected";
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  summary: string[];
+  plan: ImprovementPlan;
+  recordId?: string; // ImprovementRecord created when the set was applied
+}
+
+const STORE = "change-sets";
+const changeSets: PendingChangeSet[] = loadJson<PendingChangeSet[]>(STORE, []);
+
+export function isApprovalRequired(): boolean {
+  return process.env.IMPROVEMENT_APPROVAL === "required";
+}
+
+export function addChangeSet(plan: ImprovementPlan, summary: string[]): PendingChangeSet {
+  const changeSet: PendingChangeSet = {
+    id: randomUUID(),
+    token: randomBytes(3).toString("hex").toUpperCase(),
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    summary,
+    plan,
+  };
+  changeSets.push(changeSet);
+  saveJson(STORE, changeSets);
+  return changeSet;
+}
+
+export function findChangeSet(idOrToken: string): PendingChangeSet | undefined {
+  const key = idOrToken.trim();
+  return changeSets.find((c) => c.id === key || c.token === key.toUpperCase());
+}
+
+export function listChangeSets(status?: PendingChangeSet["status"]): PendingChangeSet[] {
+  return status ? changeSets.filter((c) => c.status === status) : changeSets;
+}
+
+export function markDecided(
+  changeSet: PendingChangeSet,
+  status: "approved" | "rejected",
+  decidedBy: string
+) {
+  changeSet.status = status;
+  changeSet.decidedAt = new Date().toISOString();
+  changeSet.decidedBy = decidedBy;
+  saveJson(STORE, changeSets);
+}
+
+export function setChangeSetRecord(changeSet: PendingChangeSet, recordId: string) {
+  changeSet.recordId = recordId;
+  saveJson(STORE, changeSets);
+}
+
+export function clearChangeSets() {
+  changeSets.length = 0;
+  saveJson(STORE, changeSets);
+}
+
+// --- WhatsApp replies: "APPROVE 3FA9C1" / "reject 3fa9c1" ---
+
+export function parseApprovalReply(
+  text: string
+): { action: "approve" | "reject"; token: string } | undefined {
+  const match = text.trim().match(/^(approve|reject)\s+([0-9a-f]{6})\b/i);
+  if (!match) return undefined;
+  return { action: match[1].toLowerCase() as "approve" | "reject", token: match[2].toUpperCase() };
+}
@@ -1,6 +1,9 @@
 import { updateAssistant, type AssistantConfig } from "./vapi.js";
 import { clearDynamicTools } from "./tools.js";
 import { clearHistory } from "./self-improve.js";
+import { clearChangeSets } from "./approvals.js";
+import { ensurePromptBaseline, recordPrompt } from "./prompt-history.js";
+import { clearConversations } from "./conversations.js";
 
 // The deliberately weak baseline — no tools, bare prompt, bad config
 export const BASELINE: AssistantConfig = {
@@ -22,16 +25,20 @@ export async function resetToBaseline(assistantId: string): Promise<void> {
   console.log(`\n[baseline] ===== RESETTING TO BASELINE =====`);
 
   // 1. Reset assistant config on Vapi
+  await ensurePromptBaseline(assistantId);
   await updateAssistant(assistantId, BASELINE);
+  recordPrompt(BASELINE.systemMessage!, "reset");
   console.log(`[baseline] Assistant prompt + config reset`);
 
-  // 2. Remove all dynamically created tools from local registry
-  clearDynamicTools();
-  console.log(`[baseline] Dynamic tools cleared`);
+  // 2. Remove all dynamically created tools locally and from the Vapi account
+  await clearDynamicTools();
+  console.log(`[baseline] Dynamic tools cleared (local + Vapi)`);
 
   // 3. Clear improvement history
   clearHistory();
-  console.log(`[baseline] Improvement history cleared`);
+  clearChangeSets();
+  clearConversations();
+  console.log(`[baseline] Improvement history, pending change sets + conversations cleared`);
 
   console.log(`[baseline] ===== BASELINE RESTORED =====\n`);
 }
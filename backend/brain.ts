@@ -1,19 +1,64 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { BrainDecision } from "./types.js";
-import { getAllTools, getTool, createAndRegisterTool } from "./tools.js";
-import { updateAssistantPrompt } from "./vapi.js";
+import type {
+  BrainDecision,
+  BrainToolCall,
+  BrainTrace,
+  BrainTraceStep,
+  VapiToolDefinition,
+  WhatsAppInput,
+} from "./types.js";
+import { getEnabledTools, getTool, createAndRegisterTool } from "./tools.js";
+import { updateAssistantPrompt, getAssistant } from "./vapi.js";
+import { notifyOperator } from "./integrations.js";
+import { SandboxError } from "./sandbox.js";
+import { ensurePromptBaseline, recordPrompt } from "./prompt-history.js";
+import { checkPromptUpdate, type PromptUpdateOrigin } from "./prompt-policy.js";
+import { renderHistory, appendTurn } from "./conversations.js";
+import { ToolValidationError } from "./tool-validation.js";
+import { smokeTestTool, summarizeCalls } from "./tool-testing.js";
+import { renderResponse } from "./render.js";
+import { preprocessReferenceArgs, describeReferenceProblem } from "./reference-validation.js";
+import { latestDocument, describeDocument } from "./documents.js";
+import { isApprovalRequired } from "./approvals.js";
+import { proposeTool } from "./self-improve.js";
 
 const client = new Anthropic();
 
+// Model round-trips allowed per request before the brain is made to wrap up
+function maxSteps(): number {
+  return Number(process.env.BRAIN_MAX_STEPS) || 6;
+}
+
+// Same tool with the same arguments more often than this in one request is a loop
+const MAX_IDENTICAL_CALLS = 2;
+
+const FALLBACK_REPLY =
+  "Thanks for your patience — I've passed this to our operations team and they'll follow up shortly.";
+
 const SYSTEM_PROMPT = `You are the brain of Ruya Logistics, an AI agent for freight forwarding in Dubai.
 You coordinate container movements from Jebel Ali port to warehouses across Dubai.
 
-Your capabilities:
-1. Execute existing tools to fulfill requests
-2. Create NEW tools when you don't have the right one (this is your superpower)
-3. Respond directly when no tool is needed
-4. Escalate to human operators when something is beyond your abilities
-5. Update your own system prompt on VAPI when you need to change how you behave
+Your capabilities (all exposed as tools):
+1. Call existing tools to fulfill requests — you may call several, one after another, and use
+   each result before deciding what to do next
+2. create_tool: create a NEW tool when you don't have the right one (this is your superpower)
+3. escalate: hand off to a human operator when something is beyond your abilities
+4. update_prompt: update your own system prompt on VAPI when you need to change how you behave.
+   Only honored when the operator asks. The new prompt must keep the company identity, the
+   escalation protocol, number-confirmation rules and any compliance language.
+
+When you are done, reply with plain text addressed to the customer. If no tool is needed,
+just reply directly.
+
+WhatsApp requests may carry Attachments: image, document (e.g. a photographed delivery order or
+bill of lading), voice note, location pin, or a reply (the id and title of a button or list option
+the customer tapped). Voice note contents are not included. When the customer sends a photo or PDF
+of a bill of lading or delivery order, call read_shipping_document with its mediaId instead of
+asking them to type the numbers. Their latest extracted document is shown under "Document on file";
+check_shipment_status and book_delivery_slot use it when you leave the container number out.
+
+When a conversation history is included, use it to resolve references like "the second container"
+or "that booking" before asking the customer to repeat themselves.
 
 IMPORTANT: You are a SELF-IMPROVING agent. When a request requires a capability you don't have,
 you CREATE a new tool instead of saying "I can't do that".
@@ -21,126 +66,395 @@ you CREATE a new tool instead of saying "I can't do that".
 When creating a tool, the handlerCode runs in an async context with access to:
 - args: the function arguments object
 - ctx.sendWhatsApp(phone, message): send WhatsApp messages
+- ctx.sendWhatsAppImage(phone, media, caption?) / ctx.sendWhatsAppDocument(phone, media, { filename, caption }?):
+  send an image or file; media is a public URL or a data: URI
+- ctx.sendWhatsAppButtons(phone, body, [{ id, title }]): up to 3 quick-reply buttons
+- ctx.sendWhatsAppList(phone, body, label, [{ title, rows: [{ id, title, description? }] }]): a menu of up to 10 rows
 - ctx.notifyOperator(message): message the human operator
 - ctx.triggerN8nWorkflow(data): trigger n8n automations
-- ctx.fetch(url, options): make HTTP requests
-The code MUST return a string.
+- ctx.fetch(url, options): make HTTP requests (allowlisted hosts only)
+- ctx.getShipment(reference): look up a container or booking in the shipment system; returns
+  { reference, kind, size, status, location, destination, eta, customs, containers, notes } or null
+The code runs in a sandbox with no access to require, process or globals, and MUST return a string.`;
+
+// --- Tool definitions (registry tools + meta-tools) ---
+
+const META_TOOLS: Anthropic.Tool[] = [
+  {
+    name: "create_tool",
+    description:
+      "Create a new tool (a sandboxed JS handler) when no existing tool can fulfil the request. It is smoke-tested against mocked services before it is registered; once created, call it by name to use it.",
+    input_schema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "snake_case tool name" },
+        description: { type: "string", description: "What the tool does" },
+        parameters: {
+          type: "object",
+          description:
+            'JSON schema for the tool arguments: {"type":"object","properties":{"param":{"type":"string","description":"..."}},"required":["param"]}',
+        },
+        handlerCode: {
+          type: "string",
+          description: "Body of an async function receiving (args, ctx). MUST return a string.",
+        },
+        toolArgs: { type: "object", description: "Sample arguments for the smoke test (side effects are mocked, never performed)" },
+      },
+      required: ["name", "description", "parameters", "handlerCode"],
+    },
+  },
+  {
+    name: "escalate",
+    description: "Escalate to a human operator when the request is beyond your abilities.",
+    input_schema: {
+      type: "object",
+      properties: { reason: { type: "string", description: "Why this needs human help" } },
+      required: ["reason"],
+    },
+  },
+  {
+    name: "update_prompt",
+    description: "Replace the VAPI voice assistant's system prompt. Only when the operator asks.",
+    input_schema: {
+      type: "object",
+      properties: { newPrompt: { type: "string", description: "The full new system prompt text" } },
+      required: ["newPrompt"],
+    },
+  },
+];
+
+const META_TOOL_NAMES = new Set(META_TOOLS.map((t) => t.name));
+
+function buildToolDefinitions(): Anthropic.Tool[] {
+  const registryTools = getEnabledTools()
+    .filter((t) => !META_TOOL_NAMES.has(t.name))
+    .map(
+      (t): Anthropic.Tool => ({
+        name: t.name,
+        description: `${t.description}${t.isDynamic ? " (self-created)" : ""}`,
+        input_schema: t.parameters as Anthropic.Tool.InputSchema,
+      })
+    );
+  return [...registryTools, ...META_TOOLS];
+}
 
-Respond with ONLY valid JSON matching one of these shapes:
+// --- Decide ---
 
-1. Execute existing tool:
-{"action":"execute_tool","toolName":"tool_name","toolArgs":{"key":"value"}}
+export interface DecideContext {
+  callerPhone?: string;
+  channel?: string;
+  chatId?: string; // enables conversation memory (WhatsApp chat_id)
+  inputs?: WhatsAppInput[]; // structured WhatsApp content (media, location, button taps)
+  // Who is asking, as established by the route that received the message — the
+  // prompt policy trusts this, so it is never built from a request body
+  origin?: PromptUpdateOrigin;
+}
 
-2. Create new tool then execute it:
-{"action":"create_tool","newTool":{"name":"snake_case_name","description":"What it does","parameters":{"type":"object","properties":{"param":{"type":"string","description":"desc"}},"required":["param"]},"handlerCode":"return 'result string'"},"toolArgs":{"param":"value"}}
+// The customer a tool acts for comes from the channel itself — the WhatsApp chat
+// the message arrived in, or the number Vapi reports for the call
+function customerPhoneOf(context: DecideContext): string | undefined {
+  if (context.channel === "whatsapp" && context.chatId) return context.chatId.split("@")[0];
+  if (context.channel === "vapi") return context.callerPhone;
+  return undefined;
+}
 
-3. Direct response (no tool needed):
-{"action":"respond","response":"Your message here"}
+// Media, locations and button taps go to the model as JSON rather than prose so
+// ids, coordinates and mime types survive intact
+function renderInputs(inputs: WhatsAppInput[] | undefined): string {
+  const attachments = (inputs || []).filter((i) => i.kind !== "text");
+  return attachments.length ? `\n\nAttachments:\n${JSON.stringify(attachments, null, 2)}` : "";
+}
 
-4. Escalate to human:
-{"action":"escalate","escalationReason":"Why this needs human help"}
+export async function decide(
+  userMessage: string,
+  context?: DecideContext
+): Promise<{ decision: BrainDecision; result?: string; parts: string[]; trace: BrainTrace }> {
+  const history = context?.chatId ? renderHistory(context.chatId) : "";
+  const customerPhone = context ? customerPhoneOf(context) : undefined;
+  const document = customerPhone ? latestDocument(customerPhone) : undefined;
+  const prompt = `Channel: ${context?.channel || "unknown"}${context?.callerPhone ? `\nCaller: ${context.callerPhone}` : ""}${document ? `\n\nDocument on file:\n${describeDocument(document)}` : ""}${history ? `\n\nConversation so far (oldest first):\n${history}` : ""}\n\nUser request: ${userMessage}${renderInputs(context?.inputs)}`;
+
+  const started = Date.now();
+  const limit = maxSteps();
+  let tools = buildToolDefinitions();
+  const messages: Anthropic.MessageParam[] = [{ role: "user", content: prompt }];
+  const toolCalls: BrainToolCall[] = [];
+  const steps: BrainTraceStep[] = [];
+  const callCounts = new Map<string, number>();
+  let stoppedBy: BrainTrace["stoppedBy"] = "step_limit";
+  let reply = "";
+
+  for (let step = 1; step <= limit; step++) {
+    const response = await callModel(messages, tools, steps, step);
+    const toolUses = response.content.filter((b): b is Anthropic.ToolUseBlock => b.type === "tool_use");
+
+    if (response.stop_reason !== "tool_use" || toolUses.length === 0) {
+      reply = textOf(response);
+      stoppedBy = "reply";
+      break;
+    }
 
-5. Update the VAPI assistant prompt (use when behavior/instructions need to change):
-{"action":"update_prompt","newPrompt":"The full new system prompt text"}`;
+    messages.push({ role: "assistant", content: response.content });
+    const results: Anthropic.ToolResultBlockParam[] = [];
+    let looping = false;
+    for (const use of toolUses) {
+      const args = (use.input || {}) as Record<string, unknown>;
+      const key = `${use.name}:${JSON.stringify(args)}`;
+      const count = (callCounts.get(key) || 0) + 1;
+      callCounts.set(key, count);
+
+      if (count > MAX_IDENTICAL_CALLS) {
+        looping = true;
+        const output = `${use.name} was already called with these arguments ${count - 1} times. Stop calling tools and answer the customer.`;
+        console.warn(`[brain] Loop detected on ${use.name} — not running it again`);
+        steps.push({ step, kind: "guard", name: use.name, args, output, isError: true, durationMs: 0 });
+        results.push({ type: "tool_result", tool_use_id: use.id, content: output, is_error: true });
+        continue;
+      }
 
-function buildToolContext(): string {
-  const tools = getAllTools();
-  if (tools.length === 0) return "No tools available.";
+      console.log(`[brain] Step ${step}: ${use.name}`);
+      const t0 = Date.now();
+      const { output, isError } = await executeToolUse(use.name, args, context || {});
+      toolCalls.push({ name: use.name, args, output, isError });
+      steps.push({ step, kind: "tool", name: use.name, args, output, isError, durationMs: Date.now() - t0 });
+      results.push({ type: "tool_result", tool_use_id: use.id, content: output, is_error: isError });
+      // A freshly created tool becomes callable on the next step
+      if (use.name === "create_tool" && !isError) tools = buildToolDefinitions();
+    }
+    messages.push({ role: "user", content: results });
+    if (looping) {
+      stoppedBy = "loop_detected";
+      break;
+    }
+  }
 
-  return tools
-    .map(
-      (t) =>
-        `- ${t.name}: ${t.description} [params: ${Object.keys(t.parameters.properties).join(", ")}]${t.isDynamic ? " (self-created)" : ""}`
-    )
-    .join("\n");
-}
+  // Out of steps, stuck in a loop, or finished without text: one last call with
+  // tools disabled so the customer never gets a raw tool result
+  if (stoppedBy !== "reply" || (!reply && toolCalls.length)) {
+    if (stoppedBy !== "reply") console.warn(`[brain] Stopping early (${stoppedBy}) — asking for a final reply`);
+    reply = await finalReply(messages, tools, steps, steps.filter((s) => s.kind === "model").length + 1);
+  }
+  if (!reply) reply = FALLBACK_REPLY;
 
-export async function decide(
-  userMessage: string,
-  context?: { callerPhone?: string; channel?: string }
-): Promise<{ decision: BrainDecision; result?: string }> {
-  const toolContext = buildToolContext();
+  const decision = summarizeDecision(toolCalls, reply);
+  const trace: BrainTrace = { steps, stoppedBy, maxSteps: limit, totalMs: Date.now() - started };
+  console.log(
+    `[brain] Decision: ${decision.action}${toolCalls.length ? ` → ${toolCalls.map((c) => c.name).join(", ")}` : ""} (${steps.length} steps, ${stoppedBy})`
+  );
 
-  const prompt = `Available tools:\n${toolContext}\n\nChannel: ${context?.channel || "unknown"}${context?.callerPhone ? `\nCaller: ${context.callerPhone}` : ""}\n\nUser request: ${userMessage}`;
+  remember(context, userMessage, toolCalls, reply);
+  const rendered = renderResponse(reply, context?.channel);
+  return { decision, result: rendered.text, parts: rendered.parts, trace };
+}
 
+async function callModel(
+  messages: Anthropic.MessageParam[],
+  tools: Anthropic.Tool[],
+  steps: BrainTraceStep[],
+  step: number,
+  toolChoice?: Anthropic.ToolChoice
+): Promise<Anthropic.Message> {
+  const t0 = Date.now();
   const response = await client.messages.create({
     model: "claude-sonnet-4-5-20250929",
     max_tokens: 1024,
     system: SYSTEM_PROMPT,
-    messages: [{ role: "user", content: prompt }],
+    tools,
+    ...(toolChoice ? { tool_choice: toolChoice } : {}),
+    messages,
   });
+  steps.push({
+    step,
+    kind: "model",
+    output: textOf(response) || undefined,
+    stopReason: response.stop_reason,
+    durationMs: Date.now() - t0,
+  });
+  return response;
+}
 
-  const text =
-    response.content[0].type === "text" ? response.content[0].text : "";
-
-  // Parse the JSON — strip markdown fences if present
-  const cleaned = text.replace(/```json?\n?/g, "").replace(/```/g, "").trim();
-  let decision: BrainDecision;
-
+async function finalReply(
+  messages: Anthropic.MessageParam[],
+  tools: Anthropic.Tool[],
+  steps: BrainTraceStep[],
+  step: number
+): Promise<string> {
+  const nudge: Anthropic.TextBlockParam = {
+    type: "text",
+    text: "Stop here. Using the tool results above, write the final reply to the customer. Do not call any more tools.",
+  };
+  const last = messages[messages.length - 1];
+  last.content = typeof last.content === "string" ? [{ type: "text", text: last.content }, nudge] : [...last.content, nudge];
   try {
-    decision = JSON.parse(cleaned);
-  } catch {
-    console.error("[brain] Failed to parse decision:", text);
-    return {
-      decision: { action: "respond", response: text },
-      result: text,
-    };
+    return textOf(await callModel(messages, tools, steps, step, { type: "none" }));
+  } catch (err) {
+    console.error("[brain] Final reply failed:", err);
+    return "";
   }
+}
 
-  console.log(`[brain] Decision: ${decision.action}${decision.toolName ? ` → ${decision.toolName}` : ""}${decision.newTool ? ` → creating "${decision.newTool.name}"` : ""}`);
-
-  // Execute the decision
-  const result = await executeDecision(decision);
-  return { decision, result };
+function textOf(response: Anthropic.Message): string {
+  return response.content
+    .filter((b): b is Anthropic.TextBlock => b.type === "text")
+    .map((b) => b.text)
+    .join("\n")
+    .trim();
 }
 
-async function executeDecision(decision: BrainDecision): Promise<string> {
-  switch (decision.action) {
-    case "execute_tool": {
-      const tool = getTool(decision.toolName!);
-      if (!tool) {
-        return `Tool "${decision.toolName}" not found. Something went wrong.`;
-      }
-      return tool.handler(decision.toolArgs || {});
-    }
+function summarizeDecision(toolCalls: BrainToolCall[], reply: string): BrainDecision {
+  const last = toolCalls[toolCalls.length - 1];
+  let action: BrainDecision["action"] = "respond";
+  if (last) action = META_TOOL_NAMES.has(last.name) ? (last.name as BrainDecision["action"]) : "execute_tool";
+  return { action, toolCalls, response: reply };
+}
 
-    case "create_tool": {
-      if (!decision.newTool) return "No tool specification provided.";
+function remember(
+  context: DecideContext | undefined,
+  userMessage: string,
+  toolCalls: BrainToolCall[],
+  reply: string
+) {
+  if (!context?.chatId) return;
+  const meta = { callerPhone: context.callerPhone, channel: context.channel };
+  appendTurn(context.chatId, { role: "customer", content: userMessage }, meta);
+  for (const call of toolCalls) {
+    appendTurn(context.chatId, { role: "tool", content: call.output, toolName: call.name, toolArgs: call.args });
+  }
+  appendTurn(context.chatId, { role: "agent", content: reply });
+}
 
-      console.log(`[brain] 🔧 SELF-IMPROVING: Creating tool "${decision.newTool.name}"`);
+// --- Tool execution ---
 
-      const newTool = await createAndRegisterTool(decision.newTool);
+type ToolOutcome = { output: string; isError: boolean };
 
-      // Execute the newly created tool immediately
-      const result = await newTool.handler(decision.toolArgs || {});
+// Sandbox violations come back as structured errors rather than bubbling up;
+// the flag says whether the handler actually ran to completion
+async function runTool(name: string, run: () => Promise<string>): Promise<ToolOutcome> {
+  try {
+    return { output: await run(), isError: false };
+  } catch (err) {
+    if (err instanceof SandboxError) {
+      console.error(`[brain] Tool "${name}" sandbox violation: ${err.code} — ${err.message}`);
+      return { output: err.toToolResult(name), isError: true };
+    }
+    throw err;
+  }
+}
 
-      console.log(`[brain] ✅ Tool "${decision.newTool.name}" created and executed`);
-      return result;
+async function executeToolUse(
+  name: string,
+  args: Record<string, unknown>,
+  context: DecideContext
+): Promise<ToolOutcome> {
+  try {
+    switch (name) {
+      case "create_tool":
+        return await createTool(args, context);
+      case "escalate":
+        await notifyOperator(`ESCALATION: ${args.reason}`);
+        return { output: `Escalated to the operations team: ${args.reason}. They'll follow up shortly.`, isError: false };
+      case "update_prompt":
+        return await updatePrompt(args.newPrompt as string | undefined, context);
     }
 
-    case "escalate": {
-      const { notifyOperator } = await import("./integrations.js");
-      await notifyOperator(`ESCALATION: ${decision.escalationReason}`);
-      return `I've escalated this to our operations team: ${decision.escalationReason}. They'll follow up shortly.`;
+    const tool = getTool(name);
+    if (!tool) return { output: `Tool "${name}" not found.`, isError: true };
+    if (tool.disabled) return { output: `Tool "${tool.name}" is currently disabled by an operator.`, isError: true };
+    // Misheard container/booking IDs go back to the model with suggestions instead of running the tool
+    const prepared = preprocessReferenceArgs(args);
+    if (prepared.problems.length) {
+      return { output: prepared.problems.map(describeReferenceProblem).join("\n"), isError: true };
     }
+    return await runTool(tool.name, () =>
+      tool.handler(prepared.args, { customerPhone: customerPhoneOf(context) })
+    );
+  } catch (err) {
+    console.error(`[brain] Tool "${name}" failed:`, err);
+    return { output: `Error executing ${name}: ${(err as Error).message}`, isError: true };
+  }
+}
 
-    case "update_prompt": {
-      if (!decision.newPrompt) return "No prompt provided.";
-      const assistantId = process.env.VAPI_ASSISTANT_ID;
-      if (!assistantId) return "VAPI_ASSISTANT_ID not configured.";
-
-      console.log(`[brain] 📝 SELF-IMPROVING: Updating assistant prompt`);
-      await updateAssistantPrompt(assistantId, decision.newPrompt);
-      const { notifyOperator: notify } = await import("./integrations.js");
-      await notify(`📝 Agent updated its own prompt on VAPI`);
-      console.log(`[brain] ✅ Prompt updated on VAPI assistant ${assistantId}`);
-      return "System prompt updated successfully.";
+async function createTool(args: Record<string, unknown>, context: DecideContext): Promise<ToolOutcome> {
+  const toolArgs = args.toolArgs as Record<string, unknown> | undefined;
+  const spec = {
+    name: args.name as string,
+    description: args.description as string,
+    parameters: args.parameters as VapiToolDefinition["function"]["parameters"],
+    handlerCode: args.handlerCode as string,
+    testCases: toolArgs ? [{ args: toolArgs }] : undefined,
+  };
+
+  // Nothing is registered, proposed or run for real until the candidate code
+  // passes against a mocked ctx
+  const report = await smokeTestTool(spec, spec.testCases);
+  if (!report.passed) {
+    const failure = report.cases.find((c) => !c.passed)!;
+    console.warn(`[brain] Tool "${spec.name}" failed its smoke test: ${failure.error}`);
+    return {
+      output: `Could not create "${spec.name}": smoke test with ${JSON.stringify(failure.args)} failed — ${failure.error}`,
+      isError: true,
+    };
+  }
+
+  // With approval required, a chat message can only propose a tool
+  if (isApprovalRequired()) {
+    const changeSet = await proposeTool(spec, `${context.channel || "unknown"} ${context.callerPhone || ""}`.trim());
+    console.log(`[brain] 🔧 Tool "${spec.name}" proposed — change set ${changeSet.token}`);
+    return {
+      output: `Tool "${spec.name}" needs operator approval before it can be used (change set ${changeSet.token}). Tell the customer the team will follow up.`,
+      isError: false,
+    };
+  }
+
+  console.log(`[brain] 🔧 SELF-IMPROVING: Creating tool "${spec.name}"`);
+
+  try {
+    await createAndRegisterTool(spec);
+  } catch (err) {
+    if (err instanceof ToolValidationError) {
+      return { output: `Could not create "${err.toolName}": ${err.reasons.join("; ")}`, isError: true };
     }
+    throw err;
+  }
 
-    case "respond":
-      return decision.response || "I'm here to help with your logistics needs.";
+  console.log(`[brain] ✅ Tool "${spec.name}" created after a passing smoke test`);
+  const sample = report.cases[0];
+  return {
+    output: `Tool "${spec.name}" created. Smoke test (mocked, nothing was sent): ${sample.output!.slice(0, 200)} | ${summarizeCalls(sample.calls)}. Call ${spec.name} now to do it for real.`,
+    isError: false,
+  };
+}
 
-    default:
-      return "I didn't understand that. Could you rephrase?";
+async function updatePrompt(
+  newPrompt: string | undefined,
+  context: DecideContext
+): Promise<ToolOutcome> {
+  if (!newPrompt) return { output: "No prompt provided.", isError: true };
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  if (!assistantId) return { output: "VAPI_ASSISTANT_ID not configured.", isError: true };
+
+  const origin = context.origin || {};
+  const current = await getAssistant(assistantId);
+  const policy = checkPromptUpdate(newPrompt, current.systemMessage, origin);
+  if (!policy.allowed) {
+    console.warn(`[brain] 🛑 Prompt update blocked: ${policy.violations.join("; ")}`);
+    await notifyOperator(
+      [
+        `🛑 Blocked a prompt rewrite (channel=${origin.channel || "unknown"}, sender=${origin.callerPhone || "unknown"})`,
+        ...policy.violations.map((v) => `  • ${v}`),
+      ].join("\n")
+    );
+    return {
+      output: `Prompt update rejected by policy: ${policy.violations.join("; ")}. Tell the customer you can't change your operating instructions from here and the operations team has been informed.`,
+      isError: true,
+    };
   }
+
+  console.log(`[brain] 📝 SELF-IMPROVING: Updating assistant prompt`);
+  await ensurePromptBaseline(assistantId);
+  await updateAssistantPrompt(assistantId, newPrompt);
+  recordPrompt(newPrompt, "brain");
+  await notifyOperator(`📝 Agent updated its own prompt on VAPI`);
+  console.log(`[brain] ✅ Prompt updated on VAPI assistant ${assistantId}`);
+  return { output: "System prompt updated successfully.", isError: false };
 }
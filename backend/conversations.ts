@@ -0,0 +1,117 @@
+// --- Per-chat conversation memory for the brain ---
+// Keyed by WhatsApp chat_id. Kept in memory only and dropped after a period
+// of inactivity; the brain sees the most recent turns that fit its budget.
+
+export interface ConversationTurn {
+  role: "customer" | "agent" | "tool";
+  content: string;
+  toolName?: string;
+  toolArgs?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface Conversation {
+  chatId: string;
+  callerPhone?: string;
+  channel?: string;
+  createdAt: string;
+  lastActivity: string;
+  turns: ConversationTurn[];
+}
+
+const conversations = new Map<string, Conversation>();
+
+const MAX_TURNS = 50;
+
+function ttlMs(): number {
+  return (Number(process.env.CONVERSATION_TTL_MINUTES) || 30) * 60_000;
+}
+
+function tokenBudget(): number {
+  return Number(process.env.CONVERSATION_TOKEN_BUDGET) || 2000;
+}
+
+// Rough estimate — close enough for budgeting without a tokenizer
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function isExpired(conversation: Conversation): boolean {
+  return Date.now() - Date.parse(conversation.lastActivity) > ttlMs();
+}
+
+export function getConversation(chatId: string): Conversation | undefined {
+  const conversation = conversations.get(chatId);
+  if (conversation && isExpired(conversation)) {
+    conversations.delete(chatId);
+    console.log(`[conversations] Expired ${chatId}`);
+    return undefined;
+  }
+  return conversation;
+}
+
+export function listConversations(): Conversation[] {
+  sweepExpired();
+  return Array.from(conversations.values());
+}
+
+export function appendTurn(
+  chatId: string,
+  turn: Omit<ConversationTurn, "timestamp">,
+  meta?: { callerPhone?: string; channel?: string }
+): Conversation {
+  const now = new Date().toISOString();
+  let conversation = getConversation(chatId);
+  if (!conversation) {
+    conversation = { chatId, createdAt: now, lastActivity: now, turns: [], ...meta };
+    conversations.set(chatId, conversation);
+  }
+  conversation.turns.push({ ...turn, timestamp: now });
+  if (conversation.turns.length > MAX_TURNS) conversation.turns.splice(0, conversation.turns.length - MAX_TURNS);
+  conversation.lastActivity = now;
+  return conversation;
+}
+
+export function clearConversation(chatId: string): boolean {
+  return conversations.delete(chatId);
+}
+
+export function clearConversations() {
+  conversations.clear();
+}
+
+function formatTurn(turn: ConversationTurn): string {
+  switch (turn.role) {
+    case "customer":
+      return `Customer: ${turn.content}`;
+    case "tool":
+      return `Agent called ${turn.toolName}(${JSON.stringify(turn.toolArgs || {})}) → ${turn.content}`;
+    default:
+      return `Agent: ${turn.content}`;
+  }
+}
+
+// Newest turns first until the budget runs out, then back in chronological order
+export function renderHistory(chatId: string): string {
+  const conversation = getConversation(chatId);
+  if (!conversation?.turns.length) return "";
+
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = conversation.turns.length - 1; i >= 0; i--) {
+    const line = formatTurn(conversation.turns[i]);
+    const cost = estimateTokens(line);
+    if (used + cost > tokenBudget()) break;
+    lines.unshift(line);
+    used += cost;
+  }
+  return lines.join("\n");
+}
+
+function sweepExpired() {
+  for (const [chatId, conversation] of conversations) {
+    if (isExpired(conversation)) conversations.delete(chatId);
+  }
+}
+
+setInterval(sweepExpired, 60_000).unref();
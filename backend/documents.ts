@@ -0,0 +1,272 @@
+import { randomBytes } from "node:crypto";
+import Anthropic from "@anthropic-ai/sdk";
+import { loadJson, saveJson } from "./storage.js";
+import { downloadWhatsAppMedia } from "./integrations.js";
+import { normalizeReference, validateContainerNumber } from "./reference-validation.js";
+
+// --- Bill of lading / delivery order extraction ---
+// Customers send BLs and delivery orders as photos or PDFs. Claude vision reads
+// them into a typed record (forced tool call, so the output is always the same
+// shape), container numbers are checked against ISO 6346, and the record is kept
+// per customer phone so later tools — and later calls — can use the numbers
+// without anyone reading them aloud.
+
+export type ShippingDocumentType = "bill_of_lading" | "delivery_order" | "other";
+
+export interface ExtractedContainer {
+  number: string;
+  valid: boolean;
+  errors: string[];
+  suggestions: string[];
+}
+
+export interface ShippingDocument {
+  id: string;
+  phone?: string;
+  documentType: ShippingDocumentType;
+  blNumber?: string;
+  deliveryOrderNumber?: string;
+  containers: ExtractedContainer[];
+  consignee?: string;
+  shipper?: string;
+  vessel?: string;
+  voyage?: string;
+  portOfLoading?: string;
+  portOfDischarge?: string;
+  cargoDescription?: string;
+  confidence: "high" | "medium" | "low";
+  notes?: string;
+  source: { mediaId?: string; mimeType: string; fileName?: string; bytes: number };
+  extractedAt: string;
+}
+
+export class DocumentError extends Error {
+  constructor(
+    public readonly code: "unsupported_type" | "too_large" | "download_failed" | "unreadable",
+    message: string
+  ) {
+    super(message);
+    this.name = "DocumentError";
+  }
+}
+
+const STORE = "documents";
+const MAX_DOCUMENTS = 2000;
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+
+const client = new Anthropic();
+const documents: ShippingDocument[] = loadJson<ShippingDocument[]>(STORE, []);
+
+function maxBytes(): number {
+  return (Number(process.env.DOCUMENT_MAX_MB) || 10) * 1024 * 1024;
+}
+
+function normalizePhone(phone: string): string {
+  return phone.split("@")[0].replace(/\D/g, "");
+}
+
+// --- Extraction ---
+
+const EXTRACTION_TOOL: Anthropic.Tool = {
+  name: "record_shipping_document",
+  description: "Record the fields read from a bill of lading or delivery order",
+  input_schema: {
+    type: "object",
+    properties: {
+      document_type: { type: "string", enum: ["bill_of_lading", "delivery_order", "other"] },
+      bl_number: { type: "string", description: "Bill of lading number, exactly as printed" },
+      delivery_order_number: { type: "string" },
+      container_numbers: {
+        type: "array",
+        items: { type: "string" },
+        description: "Every container number on the document (4 letters + 7 digits), exactly as printed",
+      },
+      consignee: { type: "string", description: "Consignee company name" },
+      shipper: { type: "string" },
+      vessel: { type: "string" },
+      voyage: { type: "string" },
+      port_of_loading: { type: "string" },
+      port_of_discharge: { type: "string" },
+      cargo_description: { type: "string", description: "Short description of the goods" },
+      confidence: {
+        type: "string",
+        enum: ["high", "medium", "low"],
+        description: "low if the scan is blurry, cropped or partly unreadable",
+      },
+      notes: { type: "string", description: "Anything unclear, e.g. digits that could not be read" },
+    },
+    required: ["document_type", "container_numbers", "confidence"],
+  },
+};
+
+const EXTRACTION_PROMPT = `This is a shipping document sent by a customer of Ruya Logistics, a Dubai freight forwarder.
+Read it and call record_shipping_document with what is printed on it. Copy numbers character by
+character — do not correct or guess them. Leave out fields that are not on the document.`;
+
+interface RecordedFields {
+  document_type?: ShippingDocumentType;
+  bl_number?: string;
+  delivery_order_number?: string;
+  container_numbers?: string[];
+  consignee?: string;
+  shipper?: string;
+  vessel?: string;
+  voyage?: string;
+  port_of_loading?: string;
+  port_of_discharge?: string;
+  cargo_description?: string;
+  confidence?: ShippingDocument["confidence"];
+  notes?: string;
+}
+
+function fileBlock(data: Buffer, mimeType: string): Anthropic.ContentBlockParam {
+  if (mimeType === "application/pdf") {
+    return { type: "document", source: { type: "base64", media_type: "application/pdf", data: data.toString("base64") } };
+  }
+  if ((IMAGE_TYPES as readonly string[]).includes(mimeType)) {
+    return {
+      type: "image",
+      source: { type: "base64", media_type: mimeType as (typeof IMAGE_TYPES)[number], data: data.toString("base64") },
+    };
+  }
+  throw new DocumentError("unsupported_type", `Can't read ${mimeType} files — send a photo (JPEG/PNG) or a PDF.`);
+}
+
+function checkContainers(numbers: string[]): ExtractedContainer[] {
+  const unique = [...new Set(numbers.map(normalizeReference).filter(Boolean))];
+  return unique.map((number) => {
+    const check = validateContainerNumber(number);
+    return { number, valid: check.valid, errors: check.errors, suggestions: check.suggestions };
+  });
+}
+
+export async function extractShippingDocument(file: {
+  data: Buffer;
+  mimeType: string;
+  fileName?: string;
+  mediaId?: string;
+}): Promise<ShippingDocument> {
+  if (file.data.length > maxBytes()) {
+    throw new DocumentError("too_large", `File is ${(file.data.length / 1048576).toFixed(1)} MB — the limit is ${maxBytes() / 1048576} MB.`);
+  }
+
+  const t0 = Date.now();
+  const response = await client.messages.create({
+    model: process.env.DOCUMENT_MODEL || "claude-sonnet-4-5-20250929",
+    max_tokens: 1024,
+    tools: [EXTRACTION_TOOL],
+    tool_choice: { type: "tool", name: EXTRACTION_TOOL.name },
+    messages: [
+      {
+        role: "user",
+        content: [fileBlock(file.data, file.mimeType), { type: "text", text: EXTRACTION_PROMPT }],
+      },
+    ],
+  });
+
+  const use = response.content.find((b): b is Anthropic.ToolUseBlock => b.type === "tool_use");
+  if (!use) throw new DocumentError("unreadable", "Couldn't read the document — ask the customer for a clearer photo.");
+  const fields = use.input as RecordedFields;
+
+  const doc: ShippingDocument = {
+    id: `DOC-${randomBytes(3).toString("hex").toUpperCase()}`,
+    documentType: fields.document_type || "other",
+    blNumber: fields.bl_number ? normalizeReference(fields.bl_number) : undefined,
+    deliveryOrderNumber: fields.delivery_order_number,
+    containers: checkContainers(fields.container_numbers || []),
+    consignee: fields.consignee,
+    shipper: fields.shipper,
+    vessel: fields.vessel,
+    voyage: fields.voyage,
+    portOfLoading: fields.port_of_loading,
+    portOfDischarge: fields.port_of_discharge,
+    cargoDescription: fields.cargo_description,
+    confidence: fields.confidence || "low",
+    notes: fields.notes,
+    source: { mediaId: file.mediaId, mimeType: file.mimeType, fileName: file.fileName, bytes: file.data.length },
+    extractedAt: new Date().toISOString(),
+  };
+  const invalid = doc.containers.filter((c) => !c.valid).length;
+  console.log(
+    `[documents] Extracted ${doc.documentType} ${doc.id}: ${doc.containers.length} container(s)${invalid ? `, ${invalid} invalid` : ""} (${Date.now() - t0}ms)`
+  );
+  return doc;
+}
+
+// --- Per-customer attachment ---
+
+export function attachDocument(doc: ShippingDocument, phone: string): ShippingDocument {
+  doc.phone = normalizePhone(phone);
+  documents.push(doc);
+  if (documents.length > MAX_DOCUMENTS) documents.splice(0, documents.length - MAX_DOCUMENTS);
+  saveJson(STORE, documents);
+  return doc;
+}
+
+// Download a WhatsApp attachment, extract it and file it under the customer
+export async function readShippingDocument(input: {
+  mediaId: string;
+  url?: string;
+  mimeType?: string;
+  fileName?: string;
+  phone?: string;
+}): Promise<ShippingDocument> {
+  const file = await downloadWhatsAppMedia(input).catch((err) => {
+    throw new DocumentError("download_failed", `Couldn't download the file: ${(err as Error).message}`);
+  });
+  // Whapi's content-type is authoritative, but octet-stream PDFs are common
+  const mimeType =
+    file.mimeType === "application/octet-stream" && input.mimeType ? input.mimeType : file.mimeType;
+  const doc = await extractShippingDocument({ data: file.data, mimeType, fileName: input.fileName, mediaId: input.mediaId });
+  return input.phone ? attachDocument(doc, input.phone) : doc;
+}
+
+export function getDocument(id: string): ShippingDocument | undefined {
+  return documents.find((d) => d.id === id.toUpperCase());
+}
+
+// Newest first
+export function listDocuments(phone?: string): ShippingDocument[] {
+  const number = phone ? normalizePhone(phone) : undefined;
+  return documents.filter((d) => !number || d.phone === number).reverse();
+}
+
+export function latestDocument(phone: string): ShippingDocument | undefined {
+  return listDocuments(phone)[0];
+}
+
+// Valid container numbers from the customer's most recent document
+export function documentContainers(phone: string): string[] {
+  return (latestDocument(phone)?.containers || []).filter((c) => c.valid).map((c) => c.number);
+}
+
+const TYPE_LABELS: Record<ShippingDocumentType, string> = {
+  bill_of_lading: "Bill of lading",
+  delivery_order: "Delivery order",
+  other: "Document",
+};
+
+export function describeDocument(doc: ShippingDocument): string {
+  const lines = [`${TYPE_LABELS[doc.documentType]} ${doc.id}${doc.blNumber ? ` — BL ${doc.blNumber}` : ""}`];
+  if (doc.deliveryOrderNumber) lines.push(`DO number: ${doc.deliveryOrderNumber}`);
+  if (doc.containers.length) {
+    lines.push(
+      `Containers: ${doc.containers
+        .map((c) =>
+          c.valid
+            ? c.number
+            : `${c.number} (invalid${c.suggestions.length ? `, maybe ${c.suggestions.join(" or ")}` : ""})`
+        )
+        .join(", ")}`
+    );
+  } else {
+    lines.push("Containers: none found");
+  }
+  if (doc.consignee) lines.push(`Consignee: ${doc.consignee}`);
+  if (doc.vessel || doc.voyage) lines.push(`Vessel/voyage: ${[doc.vessel, doc.voyage].filter(Boolean).join(" / ")}`);
+  if (doc.portOfLoading) lines.push(`Port of loading: ${doc.portOfLoading}`);
+  if (doc.portOfDischarge) lines.push(`Port of discharge: ${doc.portOfDischarge}`);
+  if (doc.cargoDescription) lines.push(`Cargo: ${doc.cargoDescription}`);
+  if (doc.confidence !== "high") lines.push(`Read with ${doc.confidence} confidence${doc.notes ? ` — ${doc.notes}` : ""}; confirm numbers with the customer.`);
+  return lines.join("\n");
+}
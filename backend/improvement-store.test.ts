@@ -0,0 +1,14 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rangeBound } from "./improvement-store.js";
+
+test("a date-only `to` covers the whole day", () => {
+  assert.equal(rangeBound("2025-03-01", "from"), Date.parse("2025-03-01T00:00:00Z"));
+  assert.equal(rangeBound("2025-03-01", "to"), Date.parse("2025-03-01T23:59:59.999Z"));
+  assert.equal(rangeBound("2025-03-01T12:00:00Z", "to"), Date.parse("2025-03-01T12:00:00Z"));
+});
+
+test("unparseable and rolled-over dates are NaN", () => {
+  assert.ok(Number.isNaN(rangeBound("yesterday", "from")));
+  assert.ok(Number.isNaN(rangeBound("2025-02-30", "to")));
+});
@@ -0,0 +1,120 @@
+import type { ImprovementRecord } from "./self-improve.js";
+import { loadJson, saveJson } from "./storage.js";
+
+// --- Pluggable persistence for the improvement audit trail ---
+
+export interface ImprovementQuery {
+  callId?: string;
+  customerNumber?: string;
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // ISO date or timestamp, inclusive; a bare date covers that whole day
+  offset?: number;
+  limit?: number;
+}
+
+export interface ImprovementPage {
+  total: number;
+  offset: number;
+  limit: number;
+  records: ImprovementRecord[];
+}
+
+export interface ImprovementStore {
+  append(record: ImprovementRecord): void;
+  update(record: ImprovementRecord): void;
+  all(): ImprovementRecord[];
+  get(id: string): ImprovementRecord | undefined;
+  query(q: ImprovementQuery): ImprovementPage;
+  clear(): void;
+}
+
+const DAY_MS = 86_400_000;
+
+// Epoch ms for a from/to bound, NaN when it doesn't parse. A date-only `to`
+// means the end of that day rather than its first millisecond.
+export function rangeBound(value: string, edge: "from" | "to"): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const start = Date.parse(`${value}T00:00:00Z`);
+    // Reject dates the parser rolls over, like 2025-02-30
+    if (Number.isNaN(start) || new Date(start).toISOString().slice(0, 10) !== value) return NaN;
+    return edge === "to" ? start + DAY_MS - 1 : start;
+  }
+  return Date.parse(value);
+}
+
+function matches(record: ImprovementRecord, q: ImprovementQuery): boolean {
+  if (q.callId && record.callId !== q.callId) return false;
+  if (q.customerNumber && record.customerNumber !== q.customerNumber) return false;
+  const ts = Date.parse(record.timestamp);
+  if (q.from && ts < rangeBound(q.from, "from")) return false;
+  if (q.to && ts > rangeBound(q.to, "to")) return false;
+  return true;
+}
+
+class MemoryImprovementStore implements ImprovementStore {
+  protected records: ImprovementRecord[] = [];
+
+  append(record: ImprovementRecord) {
+    this.records.push(record);
+  }
+
+  update(record: ImprovementRecord) {
+    const i = this.records.findIndex((r) => r.id === record.id);
+    if (i >= 0) this.records[i] = record;
+  }
+
+  all() {
+    return this.records;
+  }
+
+  get(id: string) {
+    return this.records.find((r) => r.id === id);
+  }
+
+  query(q: ImprovementQuery): ImprovementPage {
+    const offset = Math.max(0, q.offset ?? 0);
+    const limit = Math.max(1, Math.min(q.limit ?? 50, 500));
+    // Newest first
+    const filtered = this.records.filter((r) => matches(r, q)).reverse();
+    return {
+      total: filtered.length,
+      offset,
+      limit,
+      records: filtered.slice(offset, offset + limit),
+    };
+  }
+
+  clear() {
+    this.records = [];
+  }
+}
+
+class FileImprovementStore extends MemoryImprovementStore {
+  constructor(private readonly name: string) {
+    super();
+    this.records = loadJson<ImprovementRecord[]>(name, []);
+    console.log(`[improvements] Loaded ${this.records.length} records from disk`);
+  }
+
+  append(record: ImprovementRecord) {
+    super.append(record);
+    saveJson(this.name, this.records);
+  }
+
+  update(record: ImprovementRecord) {
+    super.update(record);
+    saveJson(this.name, this.records);
+  }
+
+  clear() {
+    super.clear();
+    saveJson(this.name, this.records);
+  }
+}
+
+// IMPROVEMENT_STORE=memory keeps the old ephemeral behavior; file is the default
+export function createImprovementStore(): ImprovementStore {
+  const kind = process.env.IMPROVEMENT_STORE || "file";
+  if (kind === "memory") return new MemoryImprovementStore();
+  return new FileImprovementStore("improvements");
+}
@@ -1,25 +1,30 @@
+import type { WhapiMessage, WhatsAppInput } from "./types.js";
+
 const WHAPI_BASE = process.env.WHAPI_BASE_URL || "https://gate.whapi.cloud";
 const WHAPI_TOKEN = process.env.WHAPI_TOKEN || "";
 const N8N_WEBHOOK = process.env.N8N_WEBHOOK_URL || "";
 
-export async function sendWhatsApp(
-  to: string,
-  body: string
-): Promise<{ sent: boolean; id?: string }> {
-  const chatId = to.includes("@") ? to : `${to}@s.whatsapp.net`;
+// --- Whapi: outgoing ---
+
+type SendResult = { sent: boolean; id?: string };
 
-  const res = await fetch(`${WHAPI_BASE}/messages/text`, {
+function toChatId(to: string): string {
+  return to.includes("@") ? to : `${to}@s.whatsapp.net`;
+}
+
+async function whapiSend(path: string, payload: Record<string, unknown>): Promise<SendResult> {
+  const res = await fetch(`${WHAPI_BASE}${path}`, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${WHAPI_TOKEN}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ to: chatId, body }),
+    body: JSON.stringify(payload),
   });
 
   if (!res.ok) {
     const err = await res.text();
-    console.error("[whapi] send failed:", err);
+    console.error(`[whapi] ${path} send failed:`, err);
     return { sent: false };
   }
 
@@ -27,6 +32,175 @@ export async function sendWhatsApp(
   return { sent: data.sent, id: data.message?.id };
 }
 
+export async function sendWhatsApp(to: string, body: string): Promise<SendResult> {
+  return whapiSend("/messages/text", { to: toChatId(to), body });
+}
+
+// media: a public URL, a data: URI (base64) or the id of media already on Whapi
+export async function sendWhatsAppImage(to: string, media: string, caption?: string): Promise<SendResult> {
+  return whapiSend("/messages/image", { to: toChatId(to), media, ...(caption ? { caption } : {}) });
+}
+
+export async function sendWhatsAppDocument(
+  to: string,
+  media: string,
+  options: { filename?: string; caption?: string; mimeType?: string } = {}
+): Promise<SendResult> {
+  return whapiSend("/messages/document", {
+    to: toChatId(to),
+    media,
+    ...(options.filename ? { filename: options.filename } : {}),
+    ...(options.caption ? { caption: options.caption } : {}),
+    ...(options.mimeType ? { mime_type: options.mimeType } : {}),
+  });
+}
+
+export async function sendWhatsAppLocation(
+  to: string,
+  location: { latitude: number; longitude: number; name?: string; address?: string }
+): Promise<SendResult> {
+  return whapiSend("/messages/location", { to: toChatId(to), ...location });
+}
+
+export interface WhatsAppButton {
+  id: string;
+  title: string; // WhatsApp cuts these at 20 chars
+}
+
+export interface WhatsAppListSection {
+  title: string;
+  rows: { id: string; title: string; description?: string }[];
+}
+
+interface InteractiveOptions {
+  header?: string;
+  footer?: string;
+}
+
+function interactiveFrame(to: string, body: string, options: InteractiveOptions) {
+  return {
+    to: toChatId(to),
+    body: { text: body },
+    ...(options.header ? { header: { text: options.header } } : {}),
+    ...(options.footer ? { footer: { text: options.footer } } : {}),
+  };
+}
+
+// Quick-reply buttons (max 3); taps come back as a "reply" input with the button id
+export async function sendWhatsAppButtons(
+  to: string,
+  body: string,
+  buttons: WhatsAppButton[],
+  options: InteractiveOptions = {}
+): Promise<SendResult> {
+  if (!buttons.length || buttons.length > 3) throw new Error("WhatsApp buttons need 1-3 options");
+  return whapiSend("/messages/interactive", {
+    ...interactiveFrame(to, body, options),
+    type: "button",
+    action: { buttons: buttons.map((b) => ({ type: "quick_reply", id: b.id, title: b.title })) },
+  });
+}
+
+// A menu opened by `label` (max 10 rows in total); a pick comes back as a "reply" input
+export async function sendWhatsAppList(
+  to: string,
+  body: string,
+  label: string,
+  sections: WhatsAppListSection[],
+  options: InteractiveOptions = {}
+): Promise<SendResult> {
+  const rows = sections.reduce((n, s) => n + s.rows.length, 0);
+  if (!rows || rows > 10) throw new Error("WhatsApp lists need 1-10 rows");
+  return whapiSend("/messages/interactive", {
+    ...interactiveFrame(to, body, options),
+    type: "list",
+    action: { list: { label, sections } },
+  });
+}
+
+// --- Whapi: incoming ---
+
+// Everything the brain can use from one message; empty for types we don't handle
+// (stickers, reactions, polls, ...)
+export function parseWhatsAppInputs(msg: WhapiMessage): WhatsAppInput[] {
+  const inputs: WhatsAppInput[] = [];
+  if (msg.text?.body) inputs.push({ kind: "text", text: msg.text.body });
+
+  if (msg.image) {
+    inputs.push({
+      kind: "image",
+      mediaId: msg.image.id,
+      mimeType: msg.image.mime_type,
+      url: msg.image.link,
+      caption: msg.image.caption,
+    });
+  }
+  if (msg.document) {
+    inputs.push({
+      kind: "document",
+      mediaId: msg.document.id,
+      mimeType: msg.document.mime_type,
+      url: msg.document.link,
+      fileName: msg.document.file_name,
+      caption: msg.document.caption,
+    });
+  }
+  const voice = msg.voice || msg.audio;
+  if (voice) {
+    inputs.push({ kind: "voice", mediaId: voice.id, mimeType: voice.mime_type, url: voice.link, seconds: voice.seconds });
+  }
+  const location = msg.location || msg.live_location;
+  if (location) {
+    inputs.push({
+      kind: "location",
+      latitude: location.latitude,
+      longitude: location.longitude,
+      name: location.name,
+      address: location.address,
+    });
+  }
+  const choice = msg.reply?.buttons_reply || msg.reply?.list_reply;
+  if (choice) inputs.push({ kind: "reply", id: choice.id, title: choice.title });
+
+  return inputs;
+}
+
+// Fetch the bytes of an incoming image/document/voice note. Whapi only includes
+// a link when auto-download is on; otherwise go through /media/:id.
+export async function downloadWhatsAppMedia(media: {
+  mediaId: string;
+  url?: string;
+}): Promise<{ data: Buffer; mimeType: string }> {
+  const res = media.url
+    ? await fetch(media.url)
+    : await fetch(`${WHAPI_BASE}/media/${encodeURIComponent(media.mediaId)}`, {
+        headers: { Authorization: `Bearer ${WHAPI_TOKEN}` },
+      });
+  if (!res.ok) throw new Error(`Media ${media.mediaId} download failed (${res.status})`);
+  return {
+    data: Buffer.from(await res.arrayBuffer()),
+    mimeType: (res.headers.get("content-type") || "application/octet-stream").split(";")[0].trim(),
+  };
+}
+
+// One-line summary for logs and conversation memory
+export function summarizeWhatsAppInput(input: WhatsAppInput): string {
+  switch (input.kind) {
+    case "text":
+      return input.text;
+    case "image":
+      return `[image${input.caption ? `: ${input.caption}` : ""}]`;
+    case "document":
+      return `[document ${input.fileName || input.mimeType || ""}${input.caption ? `: ${input.caption}` : ""}]`.replace(" ]", "]");
+    case "voice":
+      return `[voice note${input.seconds ? ` ${input.seconds}s` : ""}]`;
+    case "location":
+      return `[location ${input.name || input.address || `${input.latitude},${input.longitude}`}]`;
+    case "reply":
+      return `[tapped "${input.title}" (${input.id})]`;
+  }
+}
+
 export async function notifyOperator(message: string) {
   const phone = process.env.OPERATOR_PHONE;
   if (!phone) {
@@ -36,6 +210,13 @@ export async function notifyOperator(message: string) {
   await sendWhatsApp(phone, `🤖 Agent: ${message}`);
 }
 
+export function isOperatorNumber(from: string | undefined): boolean {
+  const operator = process.env.OPERATOR_PHONE;
+  if (!operator || !from) return false;
+  const digits = (s: string) => s.split("@")[0].replace(/\D/g, "");
+  return digits(from) === digits(operator);
+}
+
 export async function triggerN8nWorkflow(
   data: Record<string, unknown>
 ): Promise<unknown> {
@@ -73,6 +73,11 @@ export async function activateWorkflow(workflowId: string): Promise<void> {
   console.log(`[n8n] Activated workflow ${workflowId}`);
 }
 
+export async function deactivateWorkflow(workflowId: string): Promise<void> {
+  await n8nRequest(`/workflows/${workflowId}/deactivate`, "POST");
+  console.log(`[n8n] Deactivated workflow ${workflowId}`);
+}
+
 // --- Generic workflow builder ---
 
 export async function createCustomWorkflow(spec: {
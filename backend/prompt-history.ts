@@ -0,0 +1,67 @@
+import { loadJson, saveJson } from "./storage.js";
+import { lineDiff, type DiffLine } from "./diff.js";
+import { getAssistant } from "./vapi.js";
+
+// --- Version history of the assistant system prompt ---
+// Every write to the Vapi systemMessage is recorded here with who made it.
+
+export type PromptSource = "initial" | "brain" | "pipeline" | "manual" | "reset" | "rollback";
+
+export interface PromptVersion {
+  version: number;
+  prompt: string;
+  source: PromptSource;
+  timestamp: string;
+  note?: string;
+}
+
+const STORE = "prompt-history";
+const versions: PromptVersion[] = loadJson<PromptVersion[]>(STORE, []);
+
+export function recordPrompt(prompt: string, source: PromptSource, note?: string): PromptVersion {
+  const latest = versions[versions.length - 1];
+  if (latest && latest.prompt === prompt && latest.source === source) return latest;
+
+  const entry: PromptVersion = {
+    version: (latest?.version || 0) + 1,
+    prompt,
+    source,
+    timestamp: new Date().toISOString(),
+    ...(note ? { note } : {}),
+  };
+  versions.push(entry);
+  saveJson(STORE, versions);
+  console.log(`[prompt] v${entry.version} recorded (${source}${note ? `: ${note}` : ""})`);
+  return entry;
+}
+
+// History starts with our first write, so capture the prompt that was live
+// before it — otherwise the very first rewrite has nothing to roll back to.
+// Call before writing the assistant's prompt.
+export async function ensurePromptBaseline(assistantId: string): Promise<void> {
+  if (versions.length) return;
+  try {
+    const { systemMessage } = await getAssistant(assistantId);
+    if (systemMessage) recordPrompt(systemMessage, "initial", "live before the first recorded change");
+  } catch (err) {
+    console.error("[prompt] Couldn't capture the live prompt before the first change:", err);
+  }
+}
+
+export function getPromptHistory(): PromptVersion[] {
+  return versions;
+}
+
+export function getPromptVersion(version: number): PromptVersion | undefined {
+  return versions.find((v) => v.version === version);
+}
+
+export function diffPromptVersions(
+  from: number,
+  to: number
+): { from: PromptVersion; to: PromptVersion; diff: DiffLine[] } | undefined {
+  const a = getPromptVersion(from);
+  const b = getPromptVersion(to);
+  if (!a || !b) return undefined;
+  return { from: a, to: b, diff: lineDiff(a.prompt, b.prompt) };
+}
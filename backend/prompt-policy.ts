@@ -0,0 +1,93 @@
+import { isOperatorNumber } from "./integrations.js";
+
+// --- Guardrails for brain-initiated prompt rewrites ---
+
+export interface PromptUpdateOrigin {
+  channel?: string;
+  callerPhone?: string;
+}
+
+export interface PromptPolicyResult {
+  allowed: boolean;
+  violations: string[];
+}
+
+// Sections every production voice prompt must keep
+const REQUIRED_SECTIONS: { label: string; pattern: RegExp }[] = [
+  { label: "company identity (Ruya Logistics)", pattern: /ruya logistics/i },
+  { label: "escalation protocol", pattern: /escalat|human operator|transfer to (an? )?(agent|operator|human)/i },
+  {
+    label: "number-confirmation rules",
+    pattern: /(confirm|repeat|read (it |them )?back|spell).{0,60}(number|digit|container|booking|reference)/i,
+  },
+];
+
+// Lines matching these count as compliance language and must survive a rewrite
+const COMPLIANCE_PATTERNS: RegExp[] = [
+  /\b(never|do not|don't|must not)\b.{0,60}\b(share|disclose|reveal|promise|guarantee)\b/i,
+  /\b(privacy|confidential|personal data|gdpr|consent|recorded|compliance|legal)\b/i,
+];
+
+function maxPromptLength(): number {
+  return Number(process.env.PROMPT_MAX_CHARS) || 8000;
+}
+
+function normalize(line: string): string {
+  return line.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function complianceLines(prompt: string): string[] {
+  const extra = (process.env.PROMPT_COMPLIANCE_PHRASES || "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return prompt
+    .split("\n")
+    .map(normalize)
+    .filter(
+      (line) =>
+        line &&
+        (COMPLIANCE_PATTERNS.some((p) => p.test(line)) ||
+          extra.some((phrase) => line.includes(phrase.toLowerCase())))
+    );
+}
+
+// Only the operator's own WhatsApp number may trigger a rewrite, unless extra
+// channels are opted in via PROMPT_TRUSTED_CHANNELS (e.g. "admin")
+export function isTrustedOrigin(origin: PromptUpdateOrigin): boolean {
+  const trustedChannels = (process.env.PROMPT_TRUSTED_CHANNELS || "")
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+  if (origin.channel && trustedChannels.includes(origin.channel)) return true;
+  return origin.channel === "whatsapp" && isOperatorNumber(origin.callerPhone);
+}
+
+export function checkPromptUpdate(
+  newPrompt: string,
+  currentPrompt: string,
+  origin: PromptUpdateOrigin
+): PromptPolicyResult {
+  const violations: string[] = [];
+
+  if (!isTrustedOrigin(origin)) {
+    violations.push(
+      `untrusted origin (channel=${origin.channel || "unknown"}, sender=${origin.callerPhone || "unknown"})`
+    );
+  }
+
+  if (newPrompt.length > maxPromptLength()) {
+    violations.push(`prompt is ${newPrompt.length} chars, cap is ${maxPromptLength()}`);
+  }
+
+  for (const section of REQUIRED_SECTIONS) {
+    if (!section.pattern.test(newPrompt)) violations.push(`missing required section: ${section.label}`);
+  }
+
+  const kept = normalize(newPrompt);
+  for (const line of complianceLines(currentPrompt)) {
+    if (!kept.includes(line)) violations.push(`removes compliance language: "${line.slice(0, 80)}"`);
+  }
+
+  return { allowed: violations.length === 0, violations };
+}
@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { preprocessReferenceArgs, validateContainerNumber } from "./reference-validation.js";
+
+test("validates container numbers by check digit", () => {
+  assert.equal(validateContainerNumber("CONU1234562").valid, true);
+  assert.equal(validateContainerNumber("CONU1234563").valid, false);
+});
+
+test("normalizes ID arguments and reports invalid ones", () => {
+  const ok = preprocessReferenceArgs({ container_number: "conu 123456-2" });
+  assert.deepEqual(ok.problems, []);
+  assert.equal(ok.args.container_number, "CONU1234562");
+
+  const bad = preprocessReferenceArgs({ containerNumber: "CONU1234563" });
+  assert.equal(bad.problems.length, 1);
+});
+
+test("leaves free-text fields whose names mention containers or bookings alone", () => {
+  const args = { container_size: "40FT", booking_notes: "please call first", shipment_id: "BK20240001" };
+  const { args: out, problems } = preprocessReferenceArgs(args);
+  assert.deepEqual(problems, []);
+  assert.equal(out.container_size, "40FT");
+  assert.equal(out.booking_notes, "please call first");
+});
@@ -0,0 +1,231 @@
+// --- Container number (ISO 6346) and booking reference validation ---
+// Callers mishear and mistype these constantly, so beyond a yes/no we offer
+// likely one-character corrections the agent can read back.
+
+export type ReferenceKind = "container" | "booking";
+
+export interface ReferenceCheck {
+  input: string;
+  normalized: string;
+  kind: ReferenceKind;
+  valid: boolean;
+  errors: string[];
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 3;
+
+// ISO 6346 letter values: A=10 upwards, skipping multiples of 11
+const LETTER_VALUES: Record<string, number> = (() => {
+  const values: Record<string, number> = {};
+  let n = 10;
+  for (const letter of "ABCDEFGHIJKLMNOPQRSTUVWXYZ") {
+    if (n % 11 === 0) n++;
+    values[letter] = n++;
+  }
+  return values;
+})();
+
+const CATEGORY_IDENTIFIERS = ["U", "J", "Z"]; // freight, detachable equipment, trailer/chassis
+
+// Characters commonly swapped when typed or heard over the phone
+const CONFUSABLE: Record<string, string> = {
+  O: "0DQ", "0": "OD", I: "1L", "1": "IL7", L: "1I", S: "5F", "5": "S", Z: "2", "2": "Z",
+  B: "8DPVE", "8": "B", G: "6J", "6": "G", T: "7D", "7": "T1", A: "4", "4": "A", Q: "O0",
+  D: "BTE0", E: "BDP", P: "BD", V: "B", M: "N", N: "M", F: "S", J: "G", C: "Z", K: "Q",
+  "9": "5", "3": "8",
+};
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGITS = "0123456789";
+
+export function normalizeReference(raw: string): string {
+  return raw.toUpperCase().replace(/[\s\-./]/g, "");
+}
+
+export function containerCheckDigit(first10: string): number {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const c = first10[i];
+    sum += (LETTER_VALUES[c] ?? Number(c)) * 2 ** i;
+  }
+  return (sum % 11) % 10;
+}
+
+function containerErrors(id: string): string[] {
+  if (id.length !== 11) return [`must be 11 characters (4 letters + 7 digits), got ${id.length}`];
+  const errors: string[] = [];
+  if (!/^[A-Z]{3}/.test(id)) errors.push("owner code must be 3 letters");
+  if (!CATEGORY_IDENTIFIERS.includes(id[3])) errors.push(`category identifier must be U, J or Z, got "${id[3]}"`);
+  if (!/^\d{7}$/.test(id.slice(4))) errors.push("serial number and check digit must be 7 digits");
+  if (errors.length) return errors;
+  const expected = containerCheckDigit(id);
+  if (Number(id[10]) !== expected) errors.push(`check digit should be ${expected}, got ${id[10]}`);
+  return errors;
+}
+
+function bookingErrors(ref: string): string[] {
+  const match = ref.match(/^BK(\d{4})(\d{4})$/);
+  if (!match) return ["booking references look like BK followed by a 4-digit year and 4 digits (BKYYYYNNNN)"];
+  const year = Number(match[1]);
+  const maxYear = new Date().getFullYear() + 1;
+  if (year < 2000 || year > maxYear) return [`booking year ${year} is outside 2000–${maxYear}`];
+  return [];
+}
+
+// Every single-character substitution, confusable swaps first, then by how
+// likely a slip is at that position (lower weight = more likely)
+function substitutions(
+  value: string,
+  alphabetAt: (i: number) => string,
+  weightAt: (i: number) => number = () => 0
+): string[] {
+  const scored: { candidate: string; score: number }[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const confusable = CONFUSABLE[value[i]] || "";
+    for (const c of alphabetAt(i)) {
+      if (c === value[i]) continue;
+      const candidate = value.slice(0, i) + c + value.slice(i + 1);
+      scored.push({ candidate, score: confusable.includes(c) ? 0 : 1 + weightAt(i) });
+    }
+  }
+  return scored.sort((a, b) => a.score - b.score).map((s) => s.candidate);
+}
+
+function knownSet(known?: Iterable<string>): Set<string> {
+  return new Set(Array.from(known || [], normalizeReference));
+}
+
+// Known references (e.g. from the shipment system) always rank first
+function rank(candidates: string[], known?: Iterable<string>): string[] {
+  const unique = Array.from(new Set(candidates));
+  const hits = unique.filter((c) => knownSet(known).has(c));
+  return (hits.length ? hits : unique).slice(0, MAX_SUGGESTIONS);
+}
+
+function onlyKnown(candidates: string[], known?: Iterable<string>): string[] {
+  const set = knownSet(known);
+  return Array.from(new Set(candidates.filter((c) => set.has(c)))).slice(0, MAX_SUGGESTIONS);
+}
+
+function containerSuggestions(id: string, known?: Iterable<string>): string[] {
+  if (id.length === 11) {
+    const alphabetAt = (i: number) => (i < 3 ? LETTERS : i === 3 ? CATEGORY_IDENTIFIERS.join("") : DIGITS);
+    // A wrong check digit is the commonest slip, then the serial, then the owner code
+    const weightAt = (i: number) => (i === 10 ? 0 : i >= 4 ? 1 : 2);
+    const candidates = substitutions(id, alphabetAt, weightAt).filter((c) => containerErrors(c).length === 0);
+    return rank(candidates, known);
+  }
+  // One character missing or extra has too many equally likely fixes, so only
+  // suggest ones that match a known reference
+  const candidates: string[] = [];
+  if (id.length === 12) {
+    for (let i = 0; i < 12; i++) candidates.push(id.slice(0, i) + id.slice(i + 1));
+  } else if (id.length === 10) {
+    for (let i = 0; i <= 10; i++) {
+      for (const c of i < 4 ? LETTERS : DIGITS) candidates.push(id.slice(0, i) + c + id.slice(i));
+    }
+  }
+  return onlyKnown(candidates, known);
+}
+
+function bookingSuggestions(ref: string, known?: Iterable<string>): string[] {
+  if (ref.length !== 10) return [];
+  const alphabetAt = (i: number) => (i < 2 ? LETTERS : DIGITS);
+  const candidates = substitutions(ref, alphabetAt).filter((c) => bookingErrors(c).length === 0);
+  if (known) return onlyKnown(candidates, known);
+  // Any digit swap in the sequence is a valid booking, so without a known list
+  // only suggest fixes to the prefix and year
+  return candidates.filter((c) => c.slice(6) === ref.slice(6)).slice(0, MAX_SUGGESTIONS);
+}
+
+export function validateContainerNumber(raw: string, known?: Iterable<string>): ReferenceCheck {
+  const normalized = normalizeReference(raw);
+  const errors = containerErrors(normalized);
+  return {
+    input: raw,
+    normalized,
+    kind: "container",
+    valid: errors.length === 0,
+    errors,
+    suggestions: errors.length ? containerSuggestions(normalized, known) : [],
+  };
+}
+
+export function validateBookingReference(raw: string, known?: Iterable<string>): ReferenceCheck {
+  const normalized = normalizeReference(raw);
+  const errors = bookingErrors(normalized);
+  return {
+    input: raw,
+    normalized,
+    kind: "booking",
+    valid: errors.length === 0,
+    errors,
+    suggestions: errors.length ? bookingSuggestions(normalized, known) : [],
+  };
+}
+
+// Booking-shaped input (BK…, 8K…, or 10 chars with a 2-letter prefix) is checked as a
+// booking, everything else as a container number
+export function validateReference(raw: string, known?: Iterable<string>): ReferenceCheck {
+  const normalized = normalizeReference(raw);
+  const looksLikeBooking = /^[B8][K]/.test(normalized) || /^[A-Z0-9]{2}\d{8}$/.test(normalized);
+  return looksLikeBooking ? validateBookingReference(raw, known) : validateContainerNumber(raw, known);
+}
+
+export function describeReferenceProblem(check: ReferenceCheck): string {
+  const label = check.kind === "container" ? "container number" : "booking reference";
+  const reason = check.errors.join("; ");
+  const hint = check.suggestions.length
+    ? ` Did you mean ${check.suggestions.join(" or ")}?`
+    : ` Please confirm the ${label} with the customer character by character.`;
+  return `${check.normalized} is not a valid ${label} (${reason}).${hint}`;
+}
+
+// --- Tool argument preprocessing ---
+// Normalizes reference-like arguments and reports the ones that fail validation,
+// so a tool never runs against a misheard ID.
+
+// Only arguments that hold an ID are checked — free-text fields like
+// container_size or booking_notes are left alone. Names are compared with case
+// and separators stripped, so containerNumber and container_number both match.
+const REFERENCE_ARGS = new Set(
+  [
+    "container",
+    "container_number",
+    "container_no",
+    "container_id",
+    "booking_ref",
+    "booking_reference",
+    "booking_number",
+    "booking_id",
+    "shipment_id",
+    "shipment_ref",
+    "shipment_reference",
+    "reference",
+    "reference_number",
+  ].map(argKey)
+);
+
+function argKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function isReferenceArg(name: string): boolean {
+  return REFERENCE_ARGS.has(argKey(name));
+}
+
+export function preprocessReferenceArgs(
+  args: Record<string, unknown>,
+  known?: Iterable<string>
+): { args: Record<string, unknown>; problems: ReferenceCheck[] } {
+  const out: Record<string, unknown> = { ...args };
+  const problems: ReferenceCheck[] = [];
+  for (const [key, value] of Object.entries(args)) {
+    if (typeof value !== "string" || !isReferenceArg(key) || !value.trim()) continue;
+    const check = validateReference(value, known);
+    if (check.valid) out[key] = check.normalized;
+    else problems.push(check);
+  }
+  return { args: out, problems };
+}
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderForWhatsApp } from "./render.js";
+
+test("hard-wraps words longer than the message cap instead of cutting them", () => {
+  process.env.WHATSAPP_MAX_CHARS = "40";
+  const url = `https://track.example.com/${"x".repeat(90)}`;
+  const parts = renderForWhatsApp(`Track it here: ${url} any time.`);
+  assert.ok(parts.every((part) => part.length <= 40));
+  assert.equal(parts.join("").replace(/\s/g, ""), `Trackithere:${url}anytime.`);
+  delete process.env.WHATSAPP_MAX_CHARS;
+});
+
+test("only marks status lines from shipment or tool status fields", () => {
+  const [text] = renderForWhatsApp(
+    [
+      "Container CONU1234567: In transit at Jebel Ali. Heading to Dubai, ETA 21 Oct 2026.",
+      "Customs: On customs hold",
+      "I sent the documents and it takes about 2 hours.",
+      "• Status: delivered",
+    ].join("\n")
+  );
+  assert.deepEqual(text.split("\n"), [
+    "🚚 Container CONU1234567: In transit at Jebel Ali. Heading to Dubai, ETA 21 Oct 2026.",
+    "⚠️ Customs: On customs hold",
+    "I sent the documents and it takes about 2 hours.",
+    "• ✅ Status: delivered",
+  ]);
+});
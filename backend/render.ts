@@ -0,0 +1,167 @@
+// --- Channel-aware rendering of customer-facing text ---
+// Voice (Vapi) gets plain, speakable sentences; WhatsApp gets light formatting,
+// status emoji and long answers split into several messages.
+
+export interface RenderedResponse {
+  text: string; // single string, e.g. for Vapi tool results
+  parts: string[]; // one entry per outbound message
+}
+
+const CONTAINER_RE = /\b([A-Z]{4})(\d{6})(\d)\b/g;
+const BOOKING_RE = /\b(BK)(\d{4})(\d{4})\b/g;
+
+const PHONETIC: Record<string, string> = {
+  A: "Alpha", B: "Bravo", C: "Charlie", D: "Delta", E: "Echo", F: "Foxtrot", G: "Golf",
+  H: "Hotel", I: "India", J: "Juliet", K: "Kilo", L: "Lima", M: "Mike", N: "November",
+  O: "Oscar", P: "Papa", Q: "Quebec", R: "Romeo", S: "Sierra", T: "Tango", U: "Uniform",
+  V: "Victor", W: "Whiskey", X: "X-ray", Y: "Yankee", Z: "Zulu",
+};
+
+// Only lines carrying a status field get a marker: "Status:", "Customs:" and
+// "ETA:" labels, and the "Container X: …" lines check_shipment_status returns
+const STATUS_LINE_RE = /^(?:status|customs|eta|(?:container|booking|shipment) [A-Z0-9]+(?: \([^)]*\))?):/i;
+
+// Status keywords → marker, first match wins
+const STATUS_MARKERS: { pattern: RegExp; emoji: string }[] = [
+  { pattern: /\b(error|failed|not found|no record|unable)\b/i, emoji: "❌" },
+  { pattern: /\b(hold|inspection|pending customs|delayed?)\b/i, emoji: "⚠️" },
+  { pattern: /\b(delivered|cleared|released|completed?)\b/i, emoji: "✅" },
+  { pattern: /\b(in transit|on the way|dispatched|en route)\b/i, emoji: "🚚" },
+  { pattern: /\b(arrived|discharged?|at (the )?port)\b/i, emoji: "🚢" },
+  { pattern: /\b(eta|scheduled)\b/i, emoji: "🕒" },
+];
+
+const EMOJI_RE = /\p{Extended_Pictographic}️?/gu;
+
+function whatsappMaxChars(): number {
+  return Number(process.env.WHATSAPP_MAX_CHARS) || 1000;
+}
+
+function spell(chars: string): string {
+  return chars.split("").join(" ");
+}
+
+// CONU1234567 → "Charlie Oscar November Uniform, 1 2 3, 4 5 6, check digit 7"
+function speakContainer(owner: string, serial: string, check: string): string {
+  const letters = owner.split("").map((c) => PHONETIC[c] || c).join(" ");
+  return `${letters}, ${spell(serial.slice(0, 3))}, ${spell(serial.slice(3))}, check digit ${check}`;
+}
+
+// Tool results are sometimes JSON — surface the message instead of reading braces aloud
+function unwrapJson(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{")) return text;
+  try {
+    const data = JSON.parse(trimmed) as { error?: { message?: string }; message?: string };
+    if (data.error?.message) return `Sorry, that didn't work: ${data.error.message}`;
+    if (typeof data.message === "string") return data.message;
+  } catch {
+    // not JSON after all
+  }
+  return text;
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*/g, ""))
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, "$1$2")
+    .replace(/^\s*[-*•]\s+/gm, "")
+    .replace(/^\s*\d+[.)]\s+/gm, "");
+}
+
+export function renderForVoice(text: string): string {
+  const plain = stripMarkdown(unwrapJson(text))
+    .replace(EMOJI_RE, "")
+    .replace(CONTAINER_RE, (_m, owner, serial, check) => speakContainer(owner, serial, check))
+    .replace(BOOKING_RE, (_m, prefix, year, seq) => `${spell(prefix)}, ${spell(year)}, ${spell(seq)}`);
+
+  // Line breaks mean nothing on a call — join into sentences
+  return plain
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => (/[.!?:,]$/.test(line) ? line : `${line}.`))
+    .join(" ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+function toWhatsAppMarkup(text: string): string {
+  return text
+    .replace(/^#{1,6}\s+(.+)$/gm, "*$1*")
+    .replace(/\*\*(.+?)\*\*/g, "*$1*")
+    .replace(/__(.+?)__/g, "_$1_")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/^\s*[-*]\s+/gm, "• ");
+}
+
+function withStatusMarker(line: string): string {
+  const trimmed = line.trim();
+  const body = trimmed.replace(/^• /, "");
+  if (!STATUS_LINE_RE.test(body.replace(/[*_]/g, ""))) return line;
+  const marker = STATUS_MARKERS.find((m) => m.pattern.test(body));
+  if (!marker) return line;
+  // Keep bullets in front of the marker
+  return body === trimmed ? `${marker.emoji} ${trimmed}` : `• ${marker.emoji} ${body}`;
+}
+
+// Split on paragraphs, then lines, then words so no message exceeds the cap;
+// a single word longer than the cap (e.g. a URL) is hard-wrapped, never cut
+function splitMessage(text: string, max: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+  const push = (chunk: string, sep: string) => {
+    if (!current) current = chunk;
+    else if (current.length + sep.length + chunk.length <= max) current += sep + chunk;
+    else {
+      parts.push(current);
+      current = chunk;
+    }
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (paragraph.length <= max) {
+      push(paragraph, "\n\n");
+      continue;
+    }
+    paragraph.split("\n").forEach((line, i) => {
+      const lineSep = i === 0 ? "\n\n" : "\n";
+      if (line.length <= max) return push(line, lineSep);
+      line.split(" ").forEach((word, j) => {
+        const wordSep = j === 0 ? lineSep : " ";
+        if (word.length <= max) return push(word, wordSep);
+        for (let k = 0; k < word.length; k += max) push(word.slice(k, k + max), k === 0 ? wordSep : "");
+      });
+    });
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+export function renderForWhatsApp(text: string): string[] {
+  const formatted = toWhatsAppMarkup(unwrapJson(text))
+    .split("\n")
+    .map(withStatusMarker)
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!formatted) return [];
+  return splitMessage(formatted, whatsappMaxChars());
+}
+
+export function renderResponse(text: string, channel?: string): RenderedResponse {
+  if (channel === "vapi") {
+    const spoken = renderForVoice(text);
+    return { text: spoken, parts: [spoken] };
+  }
+  if (channel === "whatsapp") {
+    const parts = renderForWhatsApp(text);
+    return { text: parts.join("\n\n"), parts };
+  }
+  const trimmed = text.trim();
+  return { text: trimmed, parts: trimmed ? [trimmed] : [] };
+}
@@ -0,0 +1,358 @@
+import { Worker } from "node:worker_threads";
+import {
+  sendWhatsApp,
+  sendWhatsAppImage,
+  sendWhatsAppDocument,
+  sendWhatsAppButtons,
+  sendWhatsAppList,
+  notifyOperator,
+  triggerN8nWorkflow,
+  type WhatsAppButton,
+  type WhatsAppListSection,
+} from "./integrations.js";
+import { getShipmentProvider } from "./shipments.js";
+
+// --- Sandboxed execution for self-created tool handlers ---
+// Each invocation runs in a throwaway worker thread (memory cap, no env vars)
+// inside a vm context that has no access to require/process. The only way out
+// is the capability bridge below, which the host side checks against policy.
+
+export type SandboxCapability =
+  | "sendWhatsApp"
+  | "sendWhatsAppImage"
+  | "sendWhatsAppDocument"
+  | "sendWhatsAppButtons"
+  | "sendWhatsAppList"
+  | "notifyOperator"
+  | "triggerN8nWorkflow"
+  | "fetch"
+  | "getShipment";
+
+export type SandboxErrorCode =
+  | "timeout"
+  | "memory"
+  | "capability_denied"
+  | "url_not_allowed"
+  | "runtime_error"
+  | "invalid_result";
+
+export class SandboxError extends Error {
+  constructor(
+    public readonly code: SandboxErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SandboxError";
+  }
+
+  // Shape returned to Vapi / the brain instead of a raw stack trace
+  toToolResult(toolName: string): string {
+    return JSON.stringify({ error: { tool: toolName, code: this.code, message: this.message } });
+  }
+}
+
+export interface SandboxPolicy {
+  wallTimeoutMs: number;
+  cpuTimeoutMs: number;
+  memoryMb: number;
+  capabilities: SandboxCapability[];
+  fetchAllowlist: string[]; // hostnames; "*.example.com" matches subdomains
+  // When set, permitted capability calls are handed here instead of being performed
+  mockCapability?: (method: SandboxCapability, params: unknown[]) => unknown;
+}
+
+const ALL_CAPABILITIES: SandboxCapability[] = [
+  "sendWhatsApp",
+  "sendWhatsAppImage",
+  "sendWhatsAppDocument",
+  "sendWhatsAppButtons",
+  "sendWhatsAppList",
+  "notifyOperator",
+  "triggerN8nWorkflow",
+  "fetch",
+  "getShipment",
+];
+
+function hostOf(url: string | undefined): string[] {
+  if (!url) return [];
+  try {
+    return [new URL(url).hostname];
+  } catch {
+    return [];
+  }
+}
+
+function csv(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+export function defaultPolicy(): SandboxPolicy {
+  return {
+    wallTimeoutMs: Number(process.env.SANDBOX_TIMEOUT_MS) || 10000,
+    cpuTimeoutMs: Number(process.env.SANDBOX_CPU_TIMEOUT_MS) || 1000,
+    memoryMb: Number(process.env.SANDBOX_MEMORY_MB) || 64,
+    capabilities: (csv(process.env.SANDBOX_CAPABILITIES) as SandboxCapability[] | undefined) || ALL_CAPABILITIES,
+    // By default only the services we already hold credentials for are reachable
+    fetchAllowlist: csv(process.env.SANDBOX_FETCH_ALLOWLIST) || [
+      ...hostOf(process.env.WHAPI_BASE_URL || "https://gate.whapi.cloud"),
+      ...hostOf(process.env.N8N_API_URL),
+      ...hostOf(process.env.N8N_WEBHOOK_URL),
+    ],
+  };
+}
+
+export function isUrlAllowed(url: string, allowlist: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return false;
+  return allowlist.some((entry) =>
+    entry.startsWith("*.")
+      ? parsed.hostname.endsWith(entry.slice(1))
+      : parsed.hostname === entry
+  );
+}
+
+// Runs inside the worker. Kept as plain JS so it works under tsx and node alike.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+
+let nextId = 0;
+const pending = new Map();
+
+parentPort.on("message", (msg) => {
+  const p = pending.get(msg.id);
+  if (!p) return;
+  pending.delete(msg.id);
+  if (msg.error) p.reject(msg.error);
+  else p.resolve(msg.value);
+});
+
+// Host-realm bridge: only ever exchanges strings with the context
+function bridge(method, payload) {
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    parentPort.postMessage({ type: "call", id, method, payload });
+  });
+}
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+});
+
+// Build ctx inside the context so user code never touches host-realm objects
+const makeCtx = vm.runInContext(\`(bridge) => {
+  const call = async (method, params) => {
+    let raw;
+    try { raw = await bridge(method, JSON.stringify(params)); }
+    catch (e) { throw new Error(String(e)); }
+    return raw === undefined ? undefined : JSON.parse(raw);
+  };
+  const ctx = Object.freeze({
+    sendWhatsApp: (phone, message) => call("sendWhatsApp", [String(phone), String(message)]),
+    sendWhatsAppImage: (phone, media, caption) =>
+      call("sendWhatsAppImage", [String(phone), String(media), caption === undefined ? undefined : String(caption)]),
+    sendWhatsAppDocument: (phone, media, options) =>
+      call("sendWhatsAppDocument", [String(phone), String(media), options || {}]),
+    sendWhatsAppButtons: (phone, body, buttons, options) =>
+      call("sendWhatsAppButtons", [String(phone), String(body), buttons || [], options || {}]),
+    sendWhatsAppList: (phone, body, label, sections, options) =>
+      call("sendWhatsAppList", [String(phone), String(body), String(label), sections || [], options || {}]),
+    notifyOperator: (message) => call("notifyOperator", [String(message)]),
+    triggerN8nWorkflow: (data) => call("triggerN8nWorkflow", [data]),
+    getShipment: async (reference) => (await call("getShipment", [String(reference)])) || null,
+    fetch: async (url, opts) => {
+      const r = await call("fetch", [String(url), opts || {}]);
+      return Object.freeze({
+        ok: r.ok,
+        status: r.status,
+        text: async () => r.body,
+        json: async () => JSON.parse(r.body),
+      });
+    },
+  });
+  const log = (...a) => { call("log", [a.map(String).join(" ")]).catch(() => {}); };
+  return { ctx, console: Object.freeze({ log, warn: log, error: log }) };
+}\`, context);
+
+const { ctx, console: sandboxConsole } = makeCtx(bridge);
+context.ctx = ctx;
+context.console = sandboxConsole;
+context.__argsJson = workerData.argsJson;
+
+const script = new vm.Script(
+  "(async (args) => { " + workerData.code + "\\n})(JSON.parse(__argsJson))",
+  { filename: "dynamic-tool.js" }
+);
+
+let promise;
+try {
+  promise = script.runInContext(context, { timeout: workerData.cpuTimeoutMs });
+} catch (e) {
+  parentPort.postMessage({ type: "done", error: String(e && e.message || e), timeout: /timed out/.test(String(e && e.message)) });
+}
+
+if (promise) {
+  Promise.resolve(promise).then(
+    (value) => parentPort.postMessage({ type: "done", value: typeof value === "string" ? value : undefined, valueType: typeof value }),
+    (e) => parentPort.postMessage({ type: "done", error: String(e && e.message || e) })
+  );
+}
+`;
+
+type WorkerMessage =
+  | { type: "call"; id: number; method: string; payload: string }
+  | { type: "done"; value?: string; valueType?: string; error?: string; timeout?: boolean };
+
+async function invokeCapability(
+  method: string,
+  params: unknown[],
+  policy: SandboxPolicy
+): Promise<unknown> {
+  if (method === "log") {
+    console.log(`[sandbox] ${params[0]}`);
+    return undefined;
+  }
+
+  if (!policy.capabilities.includes(method as SandboxCapability)) {
+    throw new SandboxError("capability_denied", `ctx.${method} is not permitted for dynamic tools`);
+  }
+  if (method === "fetch" && !isUrlAllowed(params[0] as string, policy.fetchAllowlist)) {
+    throw new SandboxError("url_not_allowed", `ctx.fetch to ${params[0]} is not on the allowlist`);
+  }
+  if (policy.mockCapability) {
+    return policy.mockCapability(method as SandboxCapability, params);
+  }
+
+  switch (method) {
+    case "sendWhatsApp":
+      return sendWhatsApp(params[0] as string, params[1] as string);
+    case "sendWhatsAppImage":
+      return sendWhatsAppImage(params[0] as string, params[1] as string, (params[2] as string | null) ?? undefined);
+    case "sendWhatsAppDocument":
+      return sendWhatsAppDocument(
+        params[0] as string,
+        params[1] as string,
+        (params[2] || {}) as { filename?: string; caption?: string; mimeType?: string }
+      );
+    case "sendWhatsAppButtons":
+      return sendWhatsAppButtons(
+        params[0] as string,
+        params[1] as string,
+        params[2] as WhatsAppButton[],
+        (params[3] || {}) as { header?: string; footer?: string }
+      );
+    case "sendWhatsAppList":
+      return sendWhatsAppList(
+        params[0] as string,
+        params[1] as string,
+        params[2] as string,
+        params[3] as WhatsAppListSection[],
+        (params[4] || {}) as { header?: string; footer?: string }
+      );
+    case "notifyOperator":
+      await notifyOperator(params[0] as string);
+      return undefined;
+    case "triggerN8nWorkflow":
+      return triggerN8nWorkflow(params[0] as Record<string, unknown>);
+    case "getShipment":
+      return getShipmentProvider().get(params[0] as string);
+    case "fetch": {
+      const url = params[0] as string;
+      const opts = (params[1] || {}) as { method?: string; headers?: Record<string, string>; body?: string };
+      const res = await fetch(url, {
+        method: opts.method,
+        headers: opts.headers,
+        body: opts.body,
+        signal: AbortSignal.timeout(policy.wallTimeoutMs),
+      });
+      return { ok: res.ok, status: res.status, body: await res.text() };
+    }
+    default:
+      throw new SandboxError("capability_denied", `Unknown capability ctx.${method}`);
+  }
+}
+
+export function runInSandbox(
+  code: string,
+  args: Record<string, unknown>,
+  policy: SandboxPolicy = defaultPolicy()
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // First policy violation wins, even if the handler catches the error itself
+    let violation: SandboxError | undefined;
+    let settled = false;
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: { code, argsJson: JSON.stringify(args ?? {}), cpuTimeoutMs: policy.cpuTimeoutMs },
+      resourceLimits: {
+        maxOldGenerationSizeMb: policy.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(policy.memoryMb / 4)),
+      },
+    });
+
+    const finish = (err: SandboxError | null, value?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate().catch(() => {});
+      if (err) reject(err);
+      else resolve(value!);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new SandboxError("timeout", `Handler exceeded ${policy.wallTimeoutMs}ms wall-clock limit`));
+    }, policy.wallTimeoutMs);
+
+    worker.on("message", (msg: WorkerMessage) => {
+      if (msg.type === "call") {
+        let params: unknown[];
+        try {
+          params = JSON.parse(msg.payload) as unknown[];
+        } catch {
+          params = [];
+        }
+        invokeCapability(msg.method, params, policy).then(
+          (value) => {
+            if (!settled) worker.postMessage({ id: msg.id, value: value === undefined ? undefined : JSON.stringify(value) });
+          },
+          (err: Error) => {
+            if (err instanceof SandboxError) violation ??= err;
+            if (!settled) worker.postMessage({ id: msg.id, error: err.message });
+          }
+        );
+        return;
+      }
+
+      if (violation) return finish(violation);
+      if (msg.timeout) {
+        return finish(new SandboxError("timeout", `Handler exceeded ${policy.cpuTimeoutMs}ms CPU limit`));
+      }
+      if (msg.error !== undefined) return finish(new SandboxError("runtime_error", msg.error));
+      if (msg.value === undefined) {
+        return finish(new SandboxError("invalid_result", `Handler must return a string, got ${msg.valueType}`));
+      }
+      finish(null, msg.value);
+    });
+
+    worker.on("error", (err: Error & { code?: string }) => {
+      if (err.code === "ERR_WORKER_OUT_OF_MEMORY") {
+        finish(new SandboxError("memory", `Handler exceeded ${policy.memoryMb}MB memory limit`));
+      } else {
+        finish(new SandboxError("runtime_error", err.message));
+      }
+    });
+
+    worker.on("exit", (code) => {
+      finish(new SandboxError("runtime_error", `Sandbox exited unexpectedly (code ${code})`));
+    });
+  });
+}
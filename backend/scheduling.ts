@@ -0,0 +1,347 @@
+import { randomBytes } from "node:crypto";
+import { loadJson, saveJson } from "./storage.js";
+import { getShipmentProvider } from "./shipments.js";
+import { validateReference, describeReferenceProblem } from "./reference-validation.js";
+
+// --- Warehouse delivery slot scheduling ---
+// Containers leave Jebel Ali for a customer warehouse in a fixed time slot. Each
+// warehouse has a number of dock doors (slot capacity); each delivery also needs
+// a truck that isn't already out on another run in the same slot.
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  area: string;
+  aliases: string[];
+  opensAt: number; // hour, Dubai time
+  closesAt: number; // hour, last slot must end by then
+  slotHours: number;
+  capacity: number; // deliveries per slot (dock doors)
+  closedDays: number[]; // 0 = Sunday
+  latitude: number;
+  longitude: number;
+}
+
+export interface Truck {
+  id: string;
+  plate: string;
+  driver: string;
+  sizes: string[]; // container sizes it can carry
+}
+
+export interface DeliveryBooking {
+  id: string;
+  reference: string; // container number or booking reference
+  warehouseId: string;
+  date: string; // YYYY-MM-DD, Dubai time
+  slot: string; // HH:MM start
+  truckId: string;
+  size?: string;
+  phone?: string;
+  status: "booked" | "cancelled";
+  createdAt: string;
+  updatedAt: string;
+  cancelReason?: string;
+  history: { at: string; action: "booked" | "rescheduled" | "cancelled"; detail: string }[];
+}
+
+export interface SlotAvailability {
+  slot: string;
+  remaining: number;
+  trucksFree: number;
+}
+
+export class SchedulingError extends Error {
+  constructor(
+    public readonly code:
+      | "unknown_warehouse"
+      | "invalid_date"
+      | "invalid_slot"
+      | "closed"
+      | "in_past"
+      | "slot_full"
+      | "no_truck"
+      | "invalid_reference"
+      | "customs_hold"
+      | "not_found"
+      | "already_cancelled"
+      | "already_booked",
+    message: string
+  ) {
+    super(message);
+    this.name = "SchedulingError";
+  }
+}
+
+export const WAREHOUSES: Warehouse[] = [
+  { id: "al_quoz", name: "Al Quoz warehouse", area: "Al Quoz Industrial Area 3", aliases: ["quoz"], opensAt: 7, closesAt: 19, slotHours: 2, capacity: 3, closedDays: [0], latitude: 25.1297, longitude: 55.2352 },
+  { id: "jafza", name: "JAFZA warehouse", area: "Jebel Ali Free Zone South", aliases: ["jebel ali free zone"], opensAt: 6, closesAt: 22, slotHours: 2, capacity: 4, closedDays: [], latitude: 24.9857, longitude: 55.0632 },
+  { id: "dip", name: "DIP warehouse", area: "Dubai Investments Park 2", aliases: ["dubai investments park", "investment park"], opensAt: 7, closesAt: 19, slotHours: 2, capacity: 3, closedDays: [0], latitude: 24.9753, longitude: 55.1756 },
+  { id: "ras_al_khor", name: "Ras Al Khor warehouse", area: "Ras Al Khor Industrial Area 2", aliases: ["ras al khor", "khor"], opensAt: 8, closesAt: 18, slotHours: 2, capacity: 2, closedDays: [0, 6], latitude: 25.1731, longitude: 55.3778 },
+  { id: "al_qusais", name: "Al Qusais warehouse", area: "Al Qusais Industrial Area 4", aliases: ["qusais"], opensAt: 8, closesAt: 18, slotHours: 2, capacity: 2, closedDays: [0], latitude: 25.2875, longitude: 55.3972 },
+  { id: "dafza", name: "DAFZA warehouse", area: "Dubai Airport Free Zone", aliases: ["airport free zone", "airport"], opensAt: 8, closesAt: 20, slotHours: 2, capacity: 2, closedDays: [], latitude: 25.2583, longitude: 55.3736 },
+];
+
+export const TRUCKS: Truck[] = [
+  { id: "T1", plate: "DXB 41822", driver: "Rashid", sizes: ["20ft", "40ft", "40ft HC"] },
+  { id: "T2", plate: "DXB 39017", driver: "Imran", sizes: ["20ft", "40ft", "40ft HC"] },
+  { id: "T3", plate: "DXB 55230", driver: "Joseph", sizes: ["20ft", "40ft", "40ft HC"] },
+  { id: "T4", plate: "DXB 20764", driver: "Ahmed", sizes: ["20ft"] },
+  { id: "T5", plate: "DXB 61458", driver: "Suresh", sizes: ["20ft"] },
+  { id: "T6", plate: "DXB 73391", driver: "Bilal", sizes: ["20ft", "40ft", "40ft HC"] },
+];
+
+const STORE = "deliveries";
+const deliveries: DeliveryBooking[] = loadJson<DeliveryBooking[]>(STORE, []);
+
+const DUBAI_OFFSET_MS = 4 * 3600_000; // UTC+4, no DST
+
+function dubaiNow(): { date: string; hour: number } {
+  const iso = new Date(Date.now() + DUBAI_OFFSET_MS).toISOString();
+  return { date: iso.slice(0, 10), hour: Number(iso.slice(11, 13)) + Number(iso.slice(14, 16)) / 60 };
+}
+
+// --- Input parsing ---
+
+// The longest matching id/alias wins, so "Dubai Airport Free Zone" picks DAFZA
+// over anything matching a shorter, more generic term. A tie (e.g. just
+// "warehouse") is ambiguous and matches nothing.
+export function findWarehouse(query: string): Warehouse | undefined {
+  const q = query.toLowerCase().replace(/[_-]/g, " ").trim();
+  if (!q) return undefined;
+
+  let best: Warehouse[] = [];
+  let bestScore = 0;
+  for (const w of WAREHOUSES) {
+    const id = w.id.replace(/_/g, " ");
+    if (id === q) return w;
+    const terms = [id, w.area.toLowerCase(), ...w.aliases].filter((t) => q.includes(t));
+    let score = Math.max(0, ...terms.map((t) => t.length));
+    if (w.name.toLowerCase().includes(q)) score = Math.max(score, q.length);
+    if (!score || score < bestScore) continue;
+    if (score > bestScore) best = [];
+    best.push(w);
+    bestScore = score;
+  }
+  return best.length === 1 ? best[0] : undefined;
+}
+
+function requireWarehouse(query: string): Warehouse {
+  const warehouse = findWarehouse(query);
+  if (!warehouse) {
+    throw new SchedulingError(
+      "unknown_warehouse",
+      `Unknown warehouse "${query}". We deliver to: ${WAREHOUSES.map((w) => w.name).join(", ")}.`
+    );
+  }
+  return warehouse;
+}
+
+// Accepts YYYY-MM-DD, "today" or "tomorrow"
+export function parseDate(input: string): string {
+  const value = input.trim().toLowerCase();
+  const { date: today } = dubaiNow();
+  if (value === "today") return today;
+  if (value === "tomorrow") return new Date(Date.parse(today) + 86_400_000).toISOString().slice(0, 10);
+  // Round-trip so impossible days like 2027-02-30 are rejected rather than rolled over
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) {
+    if (new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value) return value;
+  }
+  throw new SchedulingError("invalid_date", `"${input}" isn't a date I understand — use YYYY-MM-DD, today or tomorrow.`);
+}
+
+// Accepts "09:00", "9", "9am", "2pm", "14:00"
+export function parseSlot(input: string): string {
+  const match = input.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) throw new SchedulingError("invalid_slot", `"${input}" isn't a time I understand — use e.g. 09:00 or 2pm.`);
+  let hour = Number(match[1]);
+  if (match[3] === "pm" && hour < 12) hour += 12;
+  if (match[3] === "am" && hour === 12) hour = 0;
+  return `${String(hour).padStart(2, "0")}:${match[2] || "00"}`;
+}
+
+function slotsFor(warehouse: Warehouse): string[] {
+  const slots: string[] = [];
+  for (let h = warehouse.opensAt; h + warehouse.slotHours <= warehouse.closesAt; h += warehouse.slotHours) {
+    slots.push(`${String(h).padStart(2, "0")}:00`);
+  }
+  return slots;
+}
+
+function checkOpen(warehouse: Warehouse, date: string, slot?: string) {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (warehouse.closedDays.includes(day)) {
+    throw new SchedulingError("closed", `${warehouse.name} doesn't take deliveries on ${new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", { weekday: "long", timeZone: "UTC" })}s.`);
+  }
+  const now = dubaiNow();
+  if (date < now.date || (slot && date === now.date && Number(slot.slice(0, 2)) <= now.hour)) {
+    throw new SchedulingError("in_past", `${date}${slot ? ` ${slot}` : ""} is in the past.`);
+  }
+  if (slot && !slotsFor(warehouse).includes(slot)) {
+    throw new SchedulingError(
+      "invalid_slot",
+      `${warehouse.name} slots start at ${slotsFor(warehouse).join(", ")}.`
+    );
+  }
+}
+
+// --- Availability ---
+
+function activeIn(date: string, slot: string, excludeId?: string): DeliveryBooking[] {
+  return deliveries.filter((d) => d.status === "booked" && d.date === date && d.slot === slot && d.id !== excludeId);
+}
+
+function freeTrucks(date: string, slot: string, size?: string, excludeId?: string): Truck[] {
+  const busy = new Set(activeIn(date, slot, excludeId).map((d) => d.truckId));
+  return TRUCKS.filter((t) => !busy.has(t.id) && (!size || t.sizes.includes(size)));
+}
+
+export function getAvailability(warehouseQuery: string, dateInput: string, size?: string): { warehouse: Warehouse; date: string; slots: SlotAvailability[] } {
+  const warehouse = requireWarehouse(warehouseQuery);
+  const date = parseDate(dateInput);
+  checkOpen(warehouse, date);
+  const now = dubaiNow();
+  const slots = slotsFor(warehouse)
+    .filter((slot) => date > now.date || Number(slot.slice(0, 2)) > now.hour)
+    .map((slot) => ({
+      slot,
+      remaining: warehouse.capacity - activeIn(date, slot).filter((d) => d.warehouseId === warehouse.id).length,
+      trucksFree: freeTrucks(date, slot, size).length,
+    }));
+  return { warehouse, date, slots };
+}
+
+// Throws unless the slot has a dock door and a suitable truck; returns the truck
+function reserve(warehouse: Warehouse, date: string, slot: string, size?: string, excludeId?: string): Truck {
+  checkOpen(warehouse, date, slot);
+  const booked = activeIn(date, slot, excludeId).filter((d) => d.warehouseId === warehouse.id).length;
+  if (booked >= warehouse.capacity) {
+    throw new SchedulingError("slot_full", `${warehouse.name} is fully booked at ${slot} on ${date}.`);
+  }
+  const truck = freeTrucks(date, slot, size, excludeId)[0];
+  if (!truck) {
+    throw new SchedulingError("no_truck", `No ${size ? `${size} ` : ""}truck is free at ${slot} on ${date}.`);
+  }
+  return truck;
+}
+
+// --- Bookings ---
+
+export function getDelivery(id: string): DeliveryBooking | undefined {
+  return deliveries.find((d) => d.id === id.trim().toUpperCase());
+}
+
+export function listDeliveries(filter: { reference?: string; warehouseId?: string; date?: string; status?: DeliveryBooking["status"] } = {}): DeliveryBooking[] {
+  return deliveries.filter(
+    (d) =>
+      (!filter.reference || d.reference === filter.reference) &&
+      (!filter.warehouseId || d.warehouseId === filter.warehouseId) &&
+      (!filter.date || d.date === filter.date) &&
+      (!filter.status || d.status === filter.status)
+  );
+}
+
+function requireDelivery(id: string): DeliveryBooking {
+  const delivery = getDelivery(id);
+  if (!delivery) throw new SchedulingError("not_found", `No delivery ${id}.`);
+  if (delivery.status === "cancelled") throw new SchedulingError("already_cancelled", `Delivery ${delivery.id} was already cancelled.`);
+  return delivery;
+}
+
+export async function bookDelivery(input: {
+  reference: string;
+  warehouse: string;
+  date: string;
+  slot: string;
+  phone?: string;
+}): Promise<DeliveryBooking> {
+  const check = validateReference(input.reference);
+  if (!check.valid) throw new SchedulingError("invalid_reference", describeReferenceProblem(check));
+
+  // Pull size and customs state from the shipment system when we have the container
+  const shipment = await getShipmentProvider().get(check.normalized).catch(() => undefined);
+  if (shipment?.customs === "hold") {
+    throw new SchedulingError("customs_hold", `${check.normalized} is on customs hold and can't be delivered until it's released.`);
+  }
+
+  // One truck per container: asking twice shouldn't take two slots
+  const existing = listDeliveries({ reference: check.normalized, status: "booked" })[0];
+  if (existing) {
+    throw new SchedulingError(
+      "already_booked",
+      `${check.normalized} already has delivery ${existing.id} on ${existing.date} at ${existing.slot} — reschedule or cancel that one instead.`
+    );
+  }
+
+  const warehouse = requireWarehouse(input.warehouse);
+  const date = parseDate(input.date);
+  const slot = parseSlot(input.slot);
+  const truck = reserve(warehouse, date, slot, shipment?.size);
+
+  const now = new Date().toISOString();
+  const delivery: DeliveryBooking = {
+    id: `DLV-${randomBytes(3).toString("hex").toUpperCase()}`,
+    reference: check.normalized,
+    warehouseId: warehouse.id,
+    date,
+    slot,
+    truckId: truck.id,
+    size: shipment?.size,
+    phone: input.phone,
+    status: "booked",
+    createdAt: now,
+    updatedAt: now,
+    history: [{ at: now, action: "booked", detail: `${warehouse.name} ${date} ${slot}, truck ${truck.plate}` }],
+  };
+  deliveries.push(delivery);
+  saveJson(STORE, deliveries);
+  console.log(`[scheduling] ${delivery.id}: ${delivery.reference} → ${warehouse.id} ${date} ${slot} (${truck.id})`);
+  return delivery;
+}
+
+export function rescheduleDelivery(
+  id: string,
+  change: { date?: string; slot?: string; warehouse?: string }
+): DeliveryBooking {
+  const delivery = requireDelivery(id);
+  const warehouse = change.warehouse ? requireWarehouse(change.warehouse) : requireWarehouse(delivery.warehouseId);
+  const date = change.date ? parseDate(change.date) : delivery.date;
+  const slot = change.slot ? parseSlot(change.slot) : delivery.slot;
+  const truck = reserve(warehouse, date, slot, delivery.size, delivery.id);
+
+  const now = new Date().toISOString();
+  delivery.history.push({
+    at: now,
+    action: "rescheduled",
+    detail: `${delivery.warehouseId} ${delivery.date} ${delivery.slot} → ${warehouse.id} ${date} ${slot}`,
+  });
+  Object.assign(delivery, { warehouseId: warehouse.id, date, slot, truckId: truck.id, updatedAt: now });
+  saveJson(STORE, deliveries);
+  console.log(`[scheduling] ${delivery.id} rescheduled → ${warehouse.id} ${date} ${slot}`);
+  return delivery;
+}
+
+export function cancelDelivery(id: string, reason?: string): DeliveryBooking {
+  const delivery = requireDelivery(id);
+  const now = new Date().toISOString();
+  delivery.status = "cancelled";
+  delivery.cancelReason = reason;
+  delivery.updatedAt = now;
+  delivery.history.push({ at: now, action: "cancelled", detail: reason || "no reason given" });
+  saveJson(STORE, deliveries);
+  console.log(`[scheduling] ${delivery.id} cancelled`);
+  return delivery;
+}
+
+export function describeDelivery(delivery: DeliveryBooking): string {
+  const warehouse = WAREHOUSES.find((w) => w.id === delivery.warehouseId);
+  const truck = TRUCKS.find((t) => t.id === delivery.truckId);
+  const date = new Date(`${delivery.date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+  const end = `${String(Number(delivery.slot.slice(0, 2)) + (warehouse?.slotHours || 2)).padStart(2, "0")}:00`;
+  return `Delivery ${delivery.id}: ${delivery.reference} to ${warehouse?.name || delivery.warehouseId} (${warehouse?.area || ""}) on ${date}, ${delivery.slot}–${end}. Truck ${truck?.plate || delivery.truckId}, driver ${truck?.driver || "TBC"}.`;
+}
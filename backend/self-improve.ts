@@ -1,18 +1,50 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { randomUUID } from "node:crypto";
 import {
   getAssistant,
   updateAssistant,
   getCall,
   createOutboundCall,
+  configFromAssistant,
   type AssistantConfig,
 } from "./vapi.js";
 import { notifyOperator } from "./integrations.js";
-import { createAndRegisterTool, getAllTools } from "./tools.js";
-import { createCustomWorkflow, isN8nConfigured, listWorkflows, getWorkflow } from "./n8n.js";
+import { createAndRegisterTool, getAllTools, setToolEnabled } from "./tools.js";
+import {
+  createCustomWorkflow,
+  isN8nConfigured,
+  listWorkflows,
+  getWorkflow,
+  deactivateWorkflow,
+} from "./n8n.js";
+import { validateToolSpec } from "./tool-validation.js";
+import { smokeTestTool, summarizeCalls, type ToolTestCase } from "./tool-testing.js";
+import {
+  isApprovalRequired,
+  addChangeSet,
+  findChangeSet,
+  markDecided,
+  setChangeSetRecord,
+  type PendingChangeSet,
+} from "./approvals.js";
+import { ensurePromptBaseline, recordPrompt } from "./prompt-history.js";
+import { createImprovementStore, type ImprovementQuery, type ImprovementPage } from "./improvement-store.js";
 
 const client = new Anthropic();
 
-// --- Improvement history (in-memory) ---
+// --- Improvement history (persisted via improvement-store) ---
+
+// Everything needed to apply an analysis — held as-is while awaiting approval
+export interface ImprovementPlan {
+  callId: string;
+  assistantId: string;
+  customerNumber?: string;
+  transcript?: string;
+  analysis: AnalysisResult;
+  rawAnalysis: string;
+  configBefore: Record<string, unknown>;
+  pipelineLog: PipelineStep[];
+}
 
 export interface PipelineStep {
   step: string;
@@ -22,6 +54,7 @@ export interface PipelineStep {
 }
 
 export interface ImprovementRecord {
+  id: string;
   callId: string;
   customerNumber?: string;
   timestamp: string;
@@ -30,21 +63,35 @@ export interface ImprovementRecord {
   changes: string[];
   toolsCreated: string[];
   workflowsCreated: string[];
+  workflowIds?: string[];
   configBefore: Record<string, unknown>;
   configAfter: AssistantConfig;
   callbackTriggered: boolean;
   rawAnalysis?: string;
   pipelineLog: PipelineStep[];
+  kind?: "improvement" | "rollback";
+  rollbackOf?: string; // id of the improvement this entry undid
+  rolledBackBy?: string; // id of the rollback entry that undid this one
+  // Calls observed after this improvement, for the auto-rollback policy
+  postCallOutcomes?: { callId: string; endedReason?: string; bad: boolean }[];
 }
 
-const history: ImprovementRecord[] = [];
+const store = createImprovementStore();
 
 export function getImprovementHistory(): ImprovementRecord[] {
-  return history;
+  return store.all();
+}
+
+export function queryImprovementHistory(query: ImprovementQuery): ImprovementPage {
+  return store.query(query);
+}
+
+export function getImprovement(id: string): ImprovementRecord | undefined {
+  return store.get(id);
 }
 
 export function clearHistory() {
-  history.length = 0;
+  store.clear();
 }
 
 // --- The configurable parameters the AI can tune ---
@@ -148,13 +195,13 @@ For simple data lookups or single API calls, create a direct tool:
     "properties": { "param": { "type": "string", "description": "..." } },
     "required": ["param"]
   },
-  "handlerCode": "JS code. Access: ctx.sendWhatsApp(phone, msg), ctx.notifyOperator(msg), ctx.fetch(url, opts). MUST return a string."
+  "handlerCode": "JS code. Access: ctx.sendWhatsApp(phone, msg), ctx.sendWhatsAppImage(phone, media, caption?), ctx.sendWhatsAppDocument(phone, media, { filename, caption }?), ctx.sendWhatsAppButtons(phone, body, [{ id, title }]), ctx.sendWhatsAppList(phone, body, label, sections), ctx.notifyOperator(msg), ctx.fetch(url, opts), ctx.getShipment(reference). MUST return a string."
 }
 
 === WHEN TO USE WHICH ===
 - WhatsApp messaging → n8n workflow (uses Whapi API)
 - Email sending → n8n workflow (uses SMTP or email API)
-- Data lookup (shipment status, etc.) → Direct Vapi tool with ctx.fetch()
+- Data lookup (shipment status, etc.) → Direct Vapi tool with ctx.getShipment() or ctx.fetch()
 - Multi-step automation → n8n workflow
 
 CRITICAL: If the caller asked for a capability (WhatsApp, email, status lookup) and the agent
@@ -172,11 +219,41 @@ function logStep(log: PipelineStep[], step: string, status: PipelineStep["status
   console.log(`[self-improve] ${icon} ${step}: ${detail}`);
 }
 
+// Static validation gate — rejected specs never reach the registry or Vapi
+function checkToolSpec(log: PipelineStep[], spec: NonNullable<AnalysisResult["newTools"]>[number]): boolean {
+  const { valid, errors, warnings } = validateToolSpec(spec);
+  if (!valid) {
+    logStep(log, "validate_tool", "error", `Rejected "${spec.name}": ${errors.join("; ")}`);
+    return false;
+  }
+  logStep(log, "validate_tool", "ok", `"${spec.name}" passed static checks${warnings.length ? ` (warnings: ${warnings.join("; ")})` : ""}`);
+  return true;
+}
+
+// Runs the candidate code against a mocked ctx — side effects are captured, never
+// performed. Called before registration so a failing tool never reaches Vapi.
+async function smokeTest(log: PipelineStep[], spec: NonNullable<AnalysisResult["newTools"]>[number]): Promise<boolean> {
+  const report = await smokeTestTool(spec, spec.testCases);
+  report.cases.forEach((c, i) => {
+    const label = `Tool "${spec.name}" case ${i + 1}/${report.cases.length} args=${JSON.stringify(c.args)}`;
+    logStep(
+      log,
+      "test_tool",
+      c.passed ? "ok" : "error",
+      c.passed
+        ? `${label} passed: ${c.output!.slice(0, 100)} | captured: ${summarizeCalls(c.calls)}`
+        : `${label} failed: ${c.error} | captured: ${summarizeCalls(c.calls)}`
+    );
+  });
+  if (!report.passed) logStep(log, "create_tool", "skipped", `Not deploying "${spec.name}": smoke test failed`);
+  return report.passed;
+}
+
 export async function analyzeAndImprove(
   callId: string,
   assistantId: string,
   customerNumber?: string
-): Promise<ImprovementRecord> {
+): Promise<ImprovementRecord | PendingChangeSet> {
   const log: PipelineStep[] = [];
 
   console.log(`\n[self-improve] ===================================`);
@@ -226,10 +303,35 @@ export async function analyzeAndImprove(
     throw err;
   }
 
+  const plan: ImprovementPlan = {
+    callId,
+    assistantId,
+    customerNumber,
+    transcript: call.transcript,
+    analysis,
+    rawAnalysis: rawAnalysisText,
+    configBefore: assistant.config,
+    pipelineLog: log,
+  };
+
+  if (isApprovalRequired()) return submitForApproval(plan);
+  return applyImprovement(plan);
+}
+
+// --- Apply phase: everything that touches Vapi, n8n or the customer ---
+
+export async function applyImprovement(plan: ImprovementPlan): Promise<ImprovementRecord> {
+  const { callId, assistantId, customerNumber, analysis } = plan;
+  const log = plan.pipelineLog;
+
   // 3. Update assistant config FIRST (before attaching tools — prevents model PATCH from overwriting toolIds)
   logStep(log, "update_assistant", "ok", "Applying config changes to Vapi assistant (prompt, maxTokens, voice, etc.)...");
   try {
+    if (analysis.configChanges.systemMessage !== undefined) await ensurePromptBaseline(assistantId);
     await updateAssistant(assistantId, analysis.configChanges);
+    if (analysis.configChanges.systemMessage !== undefined) {
+      recordPrompt(analysis.configChanges.systemMessage, "pipeline", callId === "manual" ? "manual transcript" : `call ${callId}`);
+    }
     logStep(log, "update_assistant", "ok", `Updated: ${Object.keys(analysis.configChanges).join(", ")}`);
   } catch (err) {
     logStep(log, "update_assistant", "error", `Failed to update assistant: ${(err as Error).message}`);
@@ -239,21 +341,12 @@ export async function analyzeAndImprove(
   const toolsCreated: string[] = [];
   if (analysis.newTools?.length) {
     for (const toolSpec of analysis.newTools) {
+      if (!checkToolSpec(log, toolSpec)) continue;
       try {
+        if (!(await smokeTest(log, toolSpec))) continue;
         logStep(log, "create_tool", "ok", `Creating tool: "${toolSpec.name}" — ${toolSpec.description}`);
-        const tool = await createAndRegisterTool(toolSpec);
+        await createAndRegisterTool(toolSpec);
         toolsCreated.push(toolSpec.name);
-
-        try {
-          const testArgs: Record<string, unknown> = {};
-          for (const [key, prop] of Object.entries(toolSpec.parameters.properties)) {
-            testArgs[key] = prop.type === "string" ? "test" : 0;
-          }
-          const output = await tool.handler(testArgs);
-          logStep(log, "test_tool", "ok", `Tool "${toolSpec.name}" smoke test passed: ${output.slice(0, 100)}`);
-        } catch (testErr) {
-          logStep(log, "test_tool", "error", `Tool "${toolSpec.name}" smoke test failed: ${(testErr as Error).message}`);
-        }
       } catch (err) {
         logStep(log, "create_tool", "error", `Failed to create tool "${toolSpec.name}": ${(err as Error).message}`);
       }
@@ -264,6 +357,7 @@ export async function analyzeAndImprove(
 
   // 4. Create n8n workflows
   const workflowsCreated: string[] = [];
+  const workflowIds: string[] = [];
   if (analysis.newWorkflows?.length && isN8nConfigured()) {
     for (const wf of analysis.newWorkflows) {
       try {
@@ -279,6 +373,7 @@ export async function analyzeAndImprove(
           steps: wf.steps,
         });
         workflowsCreated.push(`${wf.name} → ${result.webhookUrl}`);
+        workflowIds.push(result.workflowId);
         logStep(log, "create_workflow", "ok", `Workflow "${wf.name}" deployed: ${result.webhookUrl}`);
 
         // Create Vapi tool pointing to n8n webhook
@@ -330,21 +425,23 @@ export async function analyzeAndImprove(
   }
 
   const record: ImprovementRecord = {
+    id: randomUUID(),
     callId,
     customerNumber,
     timestamp: new Date().toISOString(),
-    transcript: call.transcript,
+    transcript: plan.transcript,
     failures: analysis.failures,
     changes: analysis.changes,
     toolsCreated,
     workflowsCreated,
-    configBefore: assistant.config,
+    workflowIds,
+    configBefore: plan.configBefore,
     configAfter: analysis.configChanges,
     callbackTriggered: false,
-    rawAnalysis: rawAnalysisText,
+    rawAnalysis: plan.rawAnalysis,
     pipelineLog: log,
   };
-  history.push(record);
+  store.append(record);
 
   // Notify operator
   await notifyOperator(
@@ -375,14 +472,191 @@ export async function analyzeAndImprove(
   } else {
     logStep(log, "callback", "skipped", "No customer number available");
   }
+  store.update(record);
 
   console.log(`[self-improve] ===== PIPELINE COMPLETE (${log.length} steps) =====\n`);
   return record;
 }
 
+// --- Approval gate ---
+
+async function submitForApproval(plan: ImprovementPlan): Promise<PendingChangeSet> {
+  const { analysis } = plan;
+  const summary = [
+    ...analysis.failures.map((f) => `❌ ${f}`),
+    ...analysis.changes.map((c) => `✅ ${c}`),
+    ...(analysis.newTools || []).map((t) => `🔧 New tool: ${t.name}`),
+    ...(analysis.newWorkflows || []).map((w) => `⚙️ New workflow: ${w.name}`),
+  ];
+  const changeSet = addChangeSet(plan, summary);
+  logStep(plan.pipelineLog, "approval", "ok", `Awaiting operator approval — change set ${changeSet.id} (token ${changeSet.token})`);
+
+  await notifyOperator(
+    [
+      `🧠 Self-improvement proposed (call ${plan.callId}) — NOT applied yet`,
+      ``,
+      ...summary,
+      ``,
+      `Reply "APPROVE ${changeSet.token}" or "REJECT ${changeSet.token}"`,
+    ].join("\n")
+  );
+
+  console.log(`[self-improve] ===== AWAITING APPROVAL (${changeSet.token}) =====\n`);
+  return changeSet;
+}
+
+// A tool the brain wants to create mid-conversation, held for review like any
+// other analysis when approval is required
+export async function proposeTool(
+  spec: NonNullable<AnalysisResult["newTools"]>[number],
+  requestedBy: string
+): Promise<PendingChangeSet> {
+  return submitForApproval({
+    callId: "brain",
+    assistantId: process.env.VAPI_ASSISTANT_ID || "",
+    analysis: {
+      failures: [],
+      changes: [`Create tool "${spec.name}" — ${spec.description} (requested by ${requestedBy})`],
+      configChanges: {},
+      newTools: [spec],
+    },
+    rawAnalysis: "",
+    configBefore: {},
+    pipelineLog: [],
+  });
+}
+
+export async function approveChangeSet(idOrToken: string, decidedBy: string): Promise<ImprovementRecord> {
+  const changeSet = findChangeSet(idOrToken);
+  if (!changeSet) throw new Error(`No change set "${idOrToken}"`);
+  if (changeSet.status !== "pending") throw new Error(`Change set ${changeSet.token} is already ${changeSet.status}`);
+
+  markDecided(changeSet, "approved", decidedBy);
+  logStep(changeSet.plan.pipelineLog, "approval", "ok", `Approved by ${decidedBy}`);
+
+  const record = await applyImprovement(changeSet.plan);
+  setChangeSetRecord(changeSet, record.id);
+  return record;
+}
+
+export async function rejectChangeSet(idOrToken: string, decidedBy: string): Promise<PendingChangeSet> {
+  const changeSet = findChangeSet(idOrToken);
+  if (!changeSet) throw new Error(`No change set "${idOrToken}"`);
+  if (changeSet.status !== "pending") throw new Error(`Change set ${changeSet.token} is already ${changeSet.status}`);
+
+  markDecided(changeSet, "rejected", decidedBy);
+  logStep(changeSet.plan.pipelineLog, "approval", "skipped", `Rejected by ${decidedBy} — nothing applied`);
+  await notifyOperator(`🚫 Change set ${changeSet.token} rejected — nothing was applied`);
+  return changeSet;
+}
+
+// --- Rollback ---
+
+// Restores the assistant to configBefore, detaches the tools and deactivates
+// the workflows the improvement created, and records the rollback itself
+export async function rollbackImprovement(id: string, reason: string): Promise<ImprovementRecord> {
+  const original = store.get(id);
+  if (!original) throw new Error(`No improvement "${id}"`);
+  if (original.kind === "rollback") throw new Error(`${id} is itself a rollback`);
+  if (original.rolledBackBy) throw new Error(`Improvement ${id} was already rolled back by ${original.rolledBackBy}`);
+
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  if (!assistantId) throw new Error("VAPI_ASSISTANT_ID not set");
+
+  const log: PipelineStep[] = [];
+  console.log(`\n[self-improve] ===== ROLLBACK ${id} (${reason}) =====`);
+
+  const assistant = await getAssistant(assistantId);
+  const restored = configFromAssistant(original.configBefore);
+  try {
+    if (restored.systemMessage !== undefined) await ensurePromptBaseline(assistantId);
+    await updateAssistant(assistantId, restored);
+    if (restored.systemMessage !== undefined) {
+      recordPrompt(restored.systemMessage, "rollback", `undo improvement ${original.id}`);
+    }
+    logStep(log, "restore_config", "ok", `Re-applied pre-change config: ${Object.keys(restored).join(", ")}`);
+  } catch (err) {
+    logStep(log, "restore_config", "error", `Failed to restore config: ${(err as Error).message}`);
+    throw err;
+  }
+
+  for (const name of original.toolsCreated) {
+    try {
+      await setToolEnabled(name, false);
+      logStep(log, "detach_tool", "ok", `Detached "${name}"`);
+    } catch (err) {
+      logStep(log, "detach_tool", "error", `"${name}": ${(err as Error).message}`);
+    }
+  }
+
+  for (const workflowId of original.workflowIds || []) {
+    try {
+      await deactivateWorkflow(workflowId);
+      logStep(log, "deactivate_workflow", "ok", `Deactivated n8n workflow ${workflowId}`);
+    } catch (err) {
+      logStep(log, "deactivate_workflow", "error", `${workflowId}: ${(err as Error).message}`);
+    }
+  }
+
+  const record: ImprovementRecord = {
+    id: randomUUID(),
+    kind: "rollback",
+    rollbackOf: original.id,
+    callId: original.callId,
+    customerNumber: original.customerNumber,
+    timestamp: new Date().toISOString(),
+    failures: [],
+    changes: [`Rolled back improvement ${original.id} (${reason})`],
+    toolsCreated: [],
+    workflowsCreated: [],
+    configBefore: assistant.config,
+    configAfter: restored,
+    callbackTriggered: false,
+    pipelineLog: log,
+  };
+  store.append(record);
+  store.update({ ...original, rolledBackBy: record.id });
+
+  await notifyOperator(
+    `↩️ Rolled back improvement from call ${original.callId} (${reason}). ${original.toolsCreated.length} tools detached, ${original.workflowIds?.length || 0} workflows deactivated.`
+  );
+  console.log(`[self-improve] ===== ROLLBACK COMPLETE =====\n`);
+  return record;
+}
+
+// --- Auto-rollback policy ---
+// AUTO_ROLLBACK_AFTER_CALLS=N rolls the latest improvement back when the N
+// calls that follow it all end badly. One good call clears it.
+
+export async function recordCallOutcome(
+  callId: string,
+  endedReason: string | undefined,
+  bad: boolean
+): Promise<ImprovementRecord | undefined> {
+  const threshold = Number(process.env.AUTO_ROLLBACK_AFTER_CALLS) || 0;
+  if (threshold <= 0) return undefined;
+
+  const latest = [...store.all()].reverse().find((r) => r.kind !== "rollback");
+  if (!latest || latest.rolledBackBy || latest.callId === callId) return undefined;
+
+  const outcomes = latest.postCallOutcomes || [];
+  // Once a good call is seen the improvement is considered validated
+  if (outcomes.some((o) => !o.bad) || outcomes.length >= threshold) return undefined;
+  if (outcomes.some((o) => o.callId === callId)) return undefined;
+
+  outcomes.push({ callId, endedReason, bad });
+  store.update({ ...latest, postCallOutcomes: outcomes });
+
+  if (bad && outcomes.length >= threshold) {
+    console.log(`[self-improve] ${threshold} bad calls in a row after improvement ${latest.id} — auto-rolling back`);
+    return rollbackImprovement(latest.id, `auto: ${threshold} bad calls after improvement`);
+  }
+  return undefined;
+}
+
 // --- Transcript analysis ---
 
-interface AnalysisResult {
+export interface AnalysisResult {
   failures: string[];
   changes: string[];
   configChanges: AssistantConfig;
@@ -395,6 +669,7 @@ interface AnalysisResult {
       required?: string[];
     };
     handlerCode: string;
+    testCases?: ToolTestCase[];
   }[];
   newWorkflows?: {
     type: "custom";
@@ -505,7 +780,8 @@ Respond with ONLY valid JSON:
       "name": "tool_name",
       "description": "what it does",
       "parameters": { "type": "object", "properties": {}, "required": [] },
-      "handlerCode": "return 'result'"
+      "handlerCode": "return 'result'",
+      "testCases": [{ "args": {}, "expectContains": "optional substring the output must include" }]
     }
   ],
   "newWorkflows": [
@@ -531,7 +807,9 @@ Respond with ONLY valid JSON:
 }
 
 Only include configChanges fields that need changing. Always include systemMessage.
-Only include newTools if tools are actually missing.
+Only include newTools if tools are actually missing. For each tool, propose 1-3 realistic
+testCases (valid container numbers, phone numbers, etc). They run against a mocked ctx, so
+nothing is really sent.
 Only include newWorkflows if multi-step automations are needed (WhatsApp, email, etc).
 Only include resourceRequests if you truly need credentials you don't have access to.
 
@@ -573,8 +851,9 @@ export async function analyzeFromTranscript(
   transcript: string,
   assistantId: string,
   customerNumber?: string
-): Promise<ImprovementRecord> {
+): Promise<ImprovementRecord | PendingChangeSet> {
   console.log(`\n[self-improve] ===== MANUAL SELF-IMPROVEMENT =====`);
+  const log: PipelineStep[] = [];
 
   const assistant = await getAssistant(assistantId);
   const existingTools = getAllTools();
@@ -586,107 +865,19 @@ export async function analyzeFromTranscript(
     existingTools.map((t) => ({ name: t.name, description: t.description }))
   );
 
-  // Update assistant config FIRST (before attaching tools)
-  await updateAssistant(assistantId, analysis.configChanges);
-
-  // Create direct tools
-  const toolsCreated: string[] = [];
-  if (analysis.newTools?.length) {
-    for (const toolSpec of analysis.newTools) {
-      try {
-        await createAndRegisterTool(toolSpec);
-        toolsCreated.push(toolSpec.name);
-      } catch (err) {
-        console.error(`[self-improve] Failed to create tool "${toolSpec.name}":`, err);
-      }
-    }
-  }
-
-  // Create n8n workflows
-  const workflowsCreated: string[] = [];
-  if (analysis.newWorkflows?.length && isN8nConfigured()) {
-    for (const wf of analysis.newWorkflows) {
-      try {
-        if (!wf.steps?.length) continue;
-        const result = await createCustomWorkflow({
-          name: wf.name,
-          webhookPath: wf.webhookPath,
-          steps: wf.steps,
-        });
-        workflowsCreated.push(`${wf.name} → ${result.webhookUrl}`);
+  logStep(log, "ai_analysis", "ok", `Claude identified ${analysis.failures.length} failures, ${analysis.changes.length} changes, ${analysis.newTools?.length || 0} new tools, ${analysis.newWorkflows?.length || 0} new workflows`);
 
-        // Wire workflow to Vapi tool
-        const toolName = wf.webhookPath.replace(/-/g, "_");
-        await createAndRegisterTool({
-          name: toolName,
-          description: `${wf.name} — triggers n8n workflow via webhook`,
-          parameters: {
-            type: "object",
-            properties: {
-              to: { type: "string", description: "Recipient phone number or identifier" },
-              message: { type: "string", description: "Message content to send" },
-            },
-            required: ["to", "message"],
-          },
-          handlerCode: `const res = await ctx.fetch("${result.webhookUrl}", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ to: args.to, message: args.message }) }); const data = await res.json(); return JSON.stringify(data);`,
-        });
-        toolsCreated.push(toolName);
-      } catch (err) {
-        console.error(`[self-improve] Failed to create workflow "${wf.name}":`, err);
-      }
-    }
-  }
-
-  // Resource requests
-  if (analysis.resourceRequests?.length) {
-    for (const req of analysis.resourceRequests) {
-      await notifyOperator(`🔑 RESOURCE REQUEST: ${req}`);
-    }
-  }
-
-  const record: ImprovementRecord = {
+  // Same approve-or-apply path as call-triggered improvements
+  const plan: ImprovementPlan = {
     callId: "manual",
+    assistantId,
     customerNumber,
-    timestamp: new Date().toISOString(),
-    failures: analysis.failures,
-    changes: analysis.changes,
-    toolsCreated,
-    workflowsCreated,
-    configBefore: assistant.config,
-    configAfter: analysis.configChanges,
-    callbackTriggered: false,
+    transcript,
+    analysis,
     rawAnalysis: rawAnalysisText,
-    pipelineLog: [],
+    configBefore: assistant.config,
+    pipelineLog: log,
   };
-
-  history.push(record);
-
-  console.log(`[self-improve] Failures:`);
-  analysis.failures.forEach((f) => console.log(`   ❌ ${f}`));
-  console.log(`[self-improve] Changes:`);
-  analysis.changes.forEach((c) => console.log(`   ✅ ${c}`));
-
-  await notifyOperator(
-    [
-      `🧠 Manual self-improvement complete`,
-      ...analysis.failures.map((f) => `  ❌ ${f}`),
-      ...analysis.changes.map((c) => `  ✅ ${c}`),
-      ...(toolsCreated.length ? toolsCreated.map((t) => `  🔧 ${t}`) : []),
-    ].join("\n")
-  );
-
-  // Auto-callback
-  if (customerNumber) {
-    await new Promise((resolve) => setTimeout(resolve, 3000));
-    try {
-      const phoneNumberId = process.env.VAPI_PHONE_NUMBER_ID;
-      await createOutboundCall(assistantId, customerNumber, phoneNumberId);
-      record.callbackTriggered = true;
-    } catch (err) {
-      console.error(`[self-improve] Callback failed:`, err);
-    }
-  }
-
-  console.log(`[self-improve] ===== MANUAL IMPROVEMENT COMPLETE =====\n`);
-  return record;
+  if (isApprovalRequired()) return submitForApproval(plan);
+  return applyImprovement(plan);
 }
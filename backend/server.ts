@@ -4,20 +4,116 @@ import type {
   VapiToolCallResult,
   VapiServerMessage,
   WhapiIncomingMessage,
+  WhapiMessage,
+  RegisteredTool,
 } from "./types.js";
-import { getTool, getAllTools, getDynamicTools } from "./tools.js";
+import {
+  getTool,
+  getAllTools,
+  getDynamicTools,
+  getToolVersions,
+  diffToolVersions,
+  rollbackTool,
+  removeTool,
+  setToolEnabled,
+  createAndRegisterTool,
+} from "./tools.js";
+import { ToolValidationError, type ToolSpec } from "./tool-validation.js";
+import { buildSampleArgs, smokeTestTool } from "./tool-testing.js";
 import { decide } from "./brain.js";
-import { sendWhatsApp } from "./integrations.js";
+import {
+  sendWhatsApp,
+  isOperatorNumber,
+  parseWhatsAppInputs,
+  summarizeWhatsAppInput,
+} from "./integrations.js";
 import {
   analyzeAndImprove,
   analyzeFromTranscript,
   getImprovementHistory,
+  queryImprovementHistory,
+  approveChangeSet,
+  rejectChangeSet,
+  rollbackImprovement,
+  recordCallOutcome,
 } from "./self-improve.js";
-import { getAssistant, createOutboundCall, getCall } from "./vapi.js";
+import { listChangeSets, parseApprovalReply } from "./approvals.js";
+import { rangeBound } from "./improvement-store.js";
+import { getAssistant, createOutboundCall, getCall, updateAssistantPrompt } from "./vapi.js";
+import {
+  ensurePromptBaseline,
+  recordPrompt,
+  getPromptHistory,
+  getPromptVersion,
+  diffPromptVersions,
+} from "./prompt-history.js";
+import { formatDiff } from "./diff.js";
+import {
+  listConversations,
+  getConversation,
+  clearConversation,
+  renderHistory,
+} from "./conversations.js";
 import { resetToBaseline, BASELINE } from "./baseline.js";
+import { SandboxError } from "./sandbox.js";
+import { renderResponse } from "./render.js";
+import {
+  preprocessReferenceArgs,
+  describeReferenceProblem,
+  validateReference,
+} from "./reference-validation.js";
+import { getShipmentProvider } from "./shipments.js";
+import {
+  getTimeline,
+  listEvents,
+  listSubscriptions,
+  pollShipments,
+  recordEvent,
+  startShipmentPolling,
+  subscribe,
+  unsubscribe,
+  type ShipmentEventInput,
+} from "./shipment-events.js";
+import {
+  WAREHOUSES,
+  TRUCKS,
+  SchedulingError,
+  bookDelivery,
+  cancelDelivery,
+  getAvailability,
+  getDelivery,
+  listDeliveries,
+  rescheduleDelivery,
+  type DeliveryBooking,
+} from "./scheduling.js";
+import {
+  verifyWebhook,
+  getWebhookAuthStats,
+  logWebhookAuthConfig,
+  type RawBodyRequest,
+} from "./webhook-auth.js";
+import { requireRole, identify, logAdminAuthConfig, type AuthedRequest } from "./admin-auth.js";
+import { enqueueMessages, getInboxStats, resumeInterrupted } from "./whapi-inbox.js";
+import {
+  DocumentError,
+  attachDocument,
+  extractShippingDocument,
+  getDocument,
+  listDocuments,
+  readShippingDocument,
+} from "./documents.js";
 
 const app = express();
-app.use(express.json());
+// Keep the raw body around for webhook HMAC verification. The limit leaves room
+// for base64 document uploads to /documents/extract.
+app.use(
+  express.json({
+    limit: "15mb",
+    verify: (req, _res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
 
 // --- Root health check ---
 
@@ -27,7 +123,7 @@ app.get("/", (_req, res) => {
 
 // --- Vapi webhook: tool calls ---
 
-app.post("/vapi/tool-calls", async (req, res) => {
+app.post("/vapi/tool-calls", verifyWebhook("vapi"), async (req, res) => {
   const payload = req.body as VapiToolCallPayload;
 
   if (payload.message?.type !== "tool-calls") {
@@ -42,16 +138,34 @@ app.post("/vapi/tool-calls", async (req, res) => {
     console.log(`[vapi] Tool call: ${name}`, args);
 
     const tool = getTool(name);
+    const prepared = preprocessReferenceArgs(args);
 
-    if (tool) {
+    if (tool?.disabled) {
+      results.push({
+        toolCallId: toolCall.id,
+        result: `Tool "${name}" is currently disabled. Let the caller know an operator will follow up.`,
+      });
+    } else if (tool && prepared.problems.length) {
+      // Let the assistant read back "did you mean …?" instead of looking up a misheard ID
+      results.push({
+        toolCallId: toolCall.id,
+        result: renderResponse(prepared.problems.map(describeReferenceProblem).join("\n"), "vapi").text,
+      });
+    } else if (tool) {
       try {
-        const result = await tool.handler(args);
-        results.push({ toolCallId: toolCall.id, result });
+        // The caller's number is what Vapi reports for the call, not a tool argument
+        const result = await tool.handler(prepared.args, { customerPhone: payload.message.call?.customer?.number });
+        results.push({ toolCallId: toolCall.id, result: renderResponse(result, "vapi").text });
       } catch (err) {
         console.error(`[vapi] Tool "${name}" error:`, err);
         results.push({
           toolCallId: toolCall.id,
-          result: `Error executing ${name}: ${(err as Error).message}`,
+          result: renderResponse(
+            err instanceof SandboxError
+              ? err.toToolResult(name)
+              : `Error executing ${name}: ${(err as Error).message}`,
+            "vapi"
+          ).text,
         });
       }
     } else {
@@ -61,6 +175,7 @@ app.post("/vapi/tool-calls", async (req, res) => {
         {
           callerPhone: payload.message.call?.customer?.number,
           channel: "vapi",
+          origin: { channel: "vapi", callerPhone: payload.message.call?.customer?.number },
         }
       );
       results.push({
@@ -75,7 +190,7 @@ app.post("/vapi/tool-calls", async (req, res) => {
 
 // --- Vapi webhook: server messages (end-of-call-report) ---
 
-app.post("/vapi/server-message", async (req, res) => {
+app.post("/vapi/server-message", verifyWebhook("vapi"), async (req, res) => {
   const payload = req.body as VapiServerMessage;
   const type = payload.message?.type;
 
@@ -101,7 +216,17 @@ app.post("/vapi/server-message", async (req, res) => {
     const shouldImprove =
       endedReason && badEndings.includes(endedReason);
 
-    if (callId && assistantId && shouldImprove) {
+    // Auto-rollback policy: a run of bad calls right after an improvement undoes it
+    let rolledBack = false;
+    if (callId) {
+      try {
+        rolledBack = Boolean(await recordCallOutcome(callId, endedReason, Boolean(shouldImprove)));
+      } catch (err) {
+        console.error("[self-improve] Auto-rollback error:", err);
+      }
+    }
+
+    if (callId && assistantId && shouldImprove && !rolledBack) {
       console.log(
         `[vapi] Bad ending (${endedReason}) — triggering full self-improvement pipeline`
       );
@@ -126,7 +251,44 @@ app.get("/whapi/incoming", (_req, res) => {
 
 // --- Whapi webhook: incoming WhatsApp ---
 
-app.post("/whapi/incoming", async (req, res) => {
+async function handleWhatsAppMessage(msg: WhapiMessage) {
+  const inputs = parseWhatsAppInputs(msg);
+  if (!inputs.length) return;
+  const text = inputs.map(summarizeWhatsAppInput).join("\n");
+
+  console.log(`[whapi] Message from ${msg.from}: ${text}`);
+
+  // Operator approving/rejecting a pending self-improvement
+  const reply = isOperatorNumber(msg.from) && msg.text?.body ? parseApprovalReply(msg.text.body) : undefined;
+  if (reply) {
+    try {
+      if (reply.action === "approve") {
+        const record = await approveChangeSet(reply.token, `whatsapp:${msg.from}`);
+        await sendWhatsApp(msg.chat_id, `✅ Change set ${reply.token} approved and applied (${record.changes.length} changes).`);
+      } else {
+        await rejectChangeSet(reply.token, `whatsapp:${msg.from}`);
+      }
+    } catch (err) {
+      await sendWhatsApp(msg.chat_id, `⚠️ ${(err as Error).message}`);
+    }
+    return;
+  }
+
+  const { parts } = await decide(text, {
+    callerPhone: msg.from,
+    channel: "whatsapp",
+    chatId: msg.chat_id,
+    inputs,
+    origin: { channel: "whatsapp", callerPhone: msg.from },
+  });
+
+  // Long answers go out as several messages, in order
+  for (const part of parts) {
+    await sendWhatsApp(msg.chat_id, part);
+  }
+}
+
+app.post("/whapi/incoming", verifyWebhook("whapi"), (req, res) => {
   // Handle Whapi webhook verification / health pings
   if (!req.body || Object.keys(req.body).length === 0) {
     res.json({ ok: true });
@@ -140,28 +302,19 @@ app.post("/whapi/incoming", async (req, res) => {
     return;
   }
 
-  for (const msg of payload.messages) {
-    const text = msg.text?.body;
-    if (!text) continue;
-
-    console.log(`[whapi] Message from ${msg.from}: ${text}`);
-
-    const { result } = await decide(text, {
-      callerPhone: msg.from,
-      channel: "whatsapp",
-    });
-
-    if (result) {
-      await sendWhatsApp(msg.chat_id, result);
-    }
-  }
+  // Ack before any model calls so Whapi doesn't time out and retry; replies
+  // are sent from the queue
+  const result = enqueueMessages(payload.messages, handleWhatsAppMessage);
+  res.json({ ok: true, ...result });
+});
 
-  res.json({ ok: true });
+app.get("/whapi/inbox", requireRole("viewer"), (_req, res) => {
+  res.json(getInboxStats());
 });
 
 // --- Self-improvement: manual trigger ---
 
-app.post("/improve", async (req, res) => {
+app.post("/improve", requireRole("operator"), async (req, res) => {
   const { callId, transcript, customerNumber } = req.body as {
     callId?: string;
     transcript?: string;
@@ -191,9 +344,64 @@ app.post("/improve", async (req, res) => {
   }
 });
 
+// --- Self-improvement: approval gate (IMPROVEMENT_APPROVAL=required) ---
+
+app.get("/improvements/pending", requireRole("viewer"), (req, res) => {
+  const status = req.query.status as "pending" | "approved" | "rejected" | undefined;
+  const changeSets = listChangeSets(status);
+  res.json({
+    count: changeSets.length,
+    changeSets: changeSets.map((c) => ({
+      id: c.id,
+      token: c.token,
+      status: c.status,
+      createdAt: c.createdAt,
+      decidedAt: c.decidedAt,
+      decidedBy: c.decidedBy,
+      callId: c.plan.callId,
+      customerNumber: c.plan.customerNumber,
+      summary: c.summary,
+      configChanges: c.plan.analysis.configChanges,
+      newTools: c.plan.analysis.newTools?.map((t) => t.name) || [],
+      newWorkflows: c.plan.analysis.newWorkflows?.map((w) => w.name) || [],
+      recordId: c.recordId,
+    })),
+  });
+});
+
+app.post("/improvements/pending/:id/approve", requireRole("admin"), async (req, res) => {
+  try {
+    const record = await approveChangeSet(req.params.id, "api");
+    res.json(record);
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/improvements/pending/:id/reject", requireRole("admin"), async (req, res) => {
+  try {
+    const changeSet = await rejectChangeSet(req.params.id, "api");
+    res.json({ ok: true, id: changeSet.id, status: changeSet.status });
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+// --- Self-improvement: roll back an applied improvement ---
+
+app.post("/improvements/:id/rollback", requireRole("admin"), async (req, res) => {
+  const { reason } = (req.body || {}) as { reason?: string };
+  try {
+    const record = await rollbackImprovement(req.params.id, reason || "manual");
+    res.json(record);
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
 // --- Calls: trigger outbound ---
 
-app.post("/calls/create", async (req, res) => {
+app.post("/calls/create", requireRole("operator"), async (req, res) => {
   const { customerNumber, phoneNumberId } = req.body as {
     customerNumber: string;
     phoneNumberId?: string;
@@ -223,7 +431,7 @@ app.post("/calls/create", async (req, res) => {
 
 // --- Calls: get transcript ---
 
-app.get("/calls/:callId", async (req, res) => {
+app.get("/calls/:callId", requireRole("viewer"), async (req, res) => {
   try {
     const call = await getCall(req.params.callId);
     res.json(call);
@@ -234,16 +442,18 @@ app.get("/calls/:callId", async (req, res) => {
 
 // --- Health: tools + improvement history ---
 
-app.get("/health", (_req, res) => {
+app.get("/health", requireRole("viewer"), (_req, res) => {
   const tools = getAllTools().map((t) => ({
     name: t.name,
     description: t.description,
     isDynamic: t.isDynamic,
     createdAt: t.createdAt,
+    version: t.version,
     params: Object.keys(t.parameters.properties),
   }));
 
   const improvements = getImprovementHistory().map((r) => ({
+    id: r.id,
     callId: r.callId,
     customerNumber: r.customerNumber,
     timestamp: r.timestamp,
@@ -263,13 +473,224 @@ app.get("/health", (_req, res) => {
   });
 });
 
+// --- Tool management: list, inspect, create, update, enable/disable, delete, invoke ---
+
+function toolSummary(t: RegisteredTool) {
+  return {
+    name: t.name,
+    description: t.description,
+    isDynamic: t.isDynamic,
+    enabled: !t.disabled,
+    version: t.version,
+    vapiToolId: t.vapiToolId,
+    createdAt: t.createdAt,
+    params: Object.keys(t.parameters.properties),
+  };
+}
+
+function sendToolError(res: express.Response, err: unknown, status = 400) {
+  if (err instanceof ToolValidationError) {
+    res.status(422).json({ error: err.message, reasons: err.reasons });
+    return;
+  }
+  res.status(status).json({ error: (err as Error).message });
+}
+
+app.get("/tools", requireRole("viewer"), (_req, res) => {
+  const tools = getAllTools().map(toolSummary);
+  res.json({ count: tools.length, tools });
+});
+
+app.get("/tools/:name", requireRole("viewer"), (req, res) => {
+  const tool = getTool(req.params.name);
+  if (!tool) {
+    res.status(404).json({ error: `Tool "${req.params.name}" not found` });
+    return;
+  }
+  res.json({ ...toolSummary(tool), parameters: tool.parameters, handlerCode: tool.handlerCode });
+});
+
+app.post("/tools", requireRole("admin"), async (req, res) => {
+  const spec = req.body as Partial<ToolSpec>;
+  if (!spec.name || !spec.handlerCode) {
+    res.status(400).json({ error: "name and handlerCode required" });
+    return;
+  }
+  if (getTool(spec.name)) {
+    res.status(409).json({ error: `Tool "${spec.name}" already exists — use PUT to update it` });
+    return;
+  }
+
+  try {
+    const tool = await createAndRegisterTool({
+      name: spec.name,
+      description: spec.description || "",
+      parameters: spec.parameters || { type: "object", properties: {} },
+      handlerCode: spec.handlerCode,
+    });
+    res.status(201).json(toolSummary(tool));
+  } catch (err) {
+    sendToolError(res, err, 500);
+  }
+});
+
+// Partial updates are merged onto the current version and saved as a new one
+app.put("/tools/:name", requireRole("admin"), async (req, res) => {
+  const existing = getTool(req.params.name);
+  if (!existing) {
+    res.status(404).json({ error: `Tool "${req.params.name}" not found` });
+    return;
+  }
+  if (!existing.isDynamic || existing.handlerCode === undefined) {
+    res.status(400).json({ error: `"${existing.name}" is a seed tool and cannot be edited` });
+    return;
+  }
+
+  const patch = req.body as Partial<ToolSpec>;
+  try {
+    const tool = await createAndRegisterTool({
+      name: existing.name,
+      description: patch.description ?? existing.description,
+      parameters: patch.parameters ?? existing.parameters,
+      handlerCode: patch.handlerCode ?? existing.handlerCode,
+    });
+    res.json(toolSummary(tool));
+  } catch (err) {
+    sendToolError(res, err, 500);
+  }
+});
+
+app.post("/tools/:name/enable", requireRole("admin"), async (req, res) => {
+  try {
+    res.json(toolSummary(await setToolEnabled(req.params.name, true)));
+  } catch (err) {
+    sendToolError(res, err, 404);
+  }
+});
+
+app.post("/tools/:name/disable", requireRole("admin"), async (req, res) => {
+  try {
+    res.json(toolSummary(await setToolEnabled(req.params.name, false)));
+  } catch (err) {
+    sendToolError(res, err, 404);
+  }
+});
+
+app.delete("/tools/:name", requireRole("admin"), async (req, res) => {
+  try {
+    const tool = await removeTool(req.params.name);
+    res.json({ ok: true, name: tool.name, vapiToolId: tool.vapiToolId });
+  } catch (err) {
+    sendToolError(res, err);
+  }
+});
+
+// Dynamic tools default to a dry run against the mocked ctx; pass
+// dryRun: false to perform real side effects. Missing args are sampled.
+app.post("/tools/:name/invoke", requireRole("operator"), async (req, res) => {
+  const tool = getTool(req.params.name);
+  if (!tool) {
+    res.status(404).json({ error: `Tool "${req.params.name}" not found` });
+    return;
+  }
+
+  const { args, dryRun = true } = req.body as { args?: Record<string, unknown>; dryRun?: boolean };
+  const callArgs = args || buildSampleArgs(tool.parameters);
+
+  if (dryRun) {
+    if (tool.handlerCode === undefined) {
+      res.status(400).json({ error: "Seed tools have no sandboxed dry run — pass dryRun: false to run for real" });
+      return;
+    }
+    const report = await smokeTestTool({ parameters: tool.parameters, handlerCode: tool.handlerCode }, [{ args: callArgs }]);
+    res.json({ dryRun: true, ...report.cases[0] });
+    return;
+  }
+
+  try {
+    const output = await tool.handler(callArgs);
+    res.json({ dryRun: false, args: callArgs, passed: true, output });
+  } catch (err) {
+    res.json({
+      dryRun: false,
+      args: callArgs,
+      passed: false,
+      error: err instanceof SandboxError ? `${err.code}: ${err.message}` : (err as Error).message,
+    });
+  }
+});
+
+// --- Tool versions: history, diff, rollback ---
+
+app.get("/tools/:name/versions", requireRole("viewer"), (req, res) => {
+  const tool = getTool(req.params.name);
+  const versions = getToolVersions(req.params.name);
+  if (!tool || !versions) {
+    res.status(404).json({ error: `No versioned tool "${req.params.name}"` });
+    return;
+  }
+  res.json({ name: tool.name, currentVersion: tool.version, versions });
+});
+
+app.get("/tools/:name/diff", requireRole("viewer"), (req, res) => {
+  const from = Number(req.query.from);
+  const to = Number(req.query.to);
+  if (!from || !to) {
+    res.status(400).json({ error: "from and to version numbers required" });
+    return;
+  }
+  const diff = diffToolVersions(req.params.name, from, to);
+  if (!diff) {
+    res.status(404).json({ error: `Versions ${from}/${to} not found for "${req.params.name}"` });
+    return;
+  }
+  res.json(diff);
+});
+
+app.post("/tools/:name/rollback", requireRole("admin"), async (req, res) => {
+  const { version } = req.body as { version?: number };
+  if (!version) {
+    res.status(400).json({ error: "version required" });
+    return;
+  }
+
+  try {
+    const tool = await rollbackTool(req.params.name, Number(version));
+    res.json({ ok: true, name: tool.name, currentVersion: tool.version, vapiToolId: tool.vapiToolId });
+  } catch (err) {
+    res.status(404).json({ error: (err as Error).message });
+  }
+});
+
 // --- Detailed improvement log (full AI reasoning + pipeline steps) ---
 
-app.get("/improvements/log", (_req, res) => {
-  const improvements = getImprovementHistory();
+app.get("/improvements/log", requireRole("viewer"), (req, res) => {
+  const q = req.query as Record<string, string | undefined>;
+  for (const edge of ["from", "to"] as const) {
+    const value = q[edge];
+    if (value && Number.isNaN(rangeBound(value, edge))) {
+      res.status(400).json({ error: `invalid ${edge} date "${value}" (use YYYY-MM-DD or an ISO timestamp)` });
+      return;
+    }
+  }
+  const page = queryImprovementHistory({
+    callId: q.callId,
+    customerNumber: q.customerNumber,
+    from: q.from,
+    to: q.to,
+    offset: q.offset ? Number(q.offset) : undefined,
+    limit: q.limit ? Number(q.limit) : undefined,
+  });
   res.json({
-    count: improvements.length,
-    improvements: improvements.map((r) => ({
+    count: page.records.length,
+    total: page.total,
+    offset: page.offset,
+    limit: page.limit,
+    improvements: page.records.map((r) => ({
+      id: r.id,
+      kind: r.kind || "improvement",
+      rollbackOf: r.rollbackOf,
+      rolledBackBy: r.rolledBackBy,
       callId: r.callId,
       customerNumber: r.customerNumber,
       timestamp: r.timestamp,
@@ -280,6 +701,8 @@ app.get("/improvements/log", (_req, res) => {
       workflowsCreated: r.workflowsCreated,
       callbackTriggered: r.callbackTriggered,
       rawAnalysis: r.rawAnalysis,
+      configBefore: r.configBefore,
+      configAfter: r.configAfter,
       pipelineLog: r.pipelineLog,
     })),
   });
@@ -287,7 +710,7 @@ app.get("/improvements/log", (_req, res) => {
 
 // --- Current prompt ---
 
-app.get("/prompt", async (_req, res) => {
+app.get("/prompt", requireRole("viewer"), async (_req, res) => {
   const assistantId = process.env.VAPI_ASSISTANT_ID;
   if (!assistantId) {
     res.status(400).json({ error: "VAPI_ASSISTANT_ID not set" });
@@ -302,9 +725,99 @@ app.get("/prompt", async (_req, res) => {
   }
 });
 
+// --- Prompt version control ---
+
+app.put("/prompt", requireRole("admin"), async (req, res) => {
+  const { systemMessage, note } = req.body as { systemMessage?: string; note?: string };
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  if (!assistantId) {
+    res.status(400).json({ error: "VAPI_ASSISTANT_ID not set" });
+    return;
+  }
+  if (!systemMessage?.trim()) {
+    res.status(400).json({ error: "systemMessage required" });
+    return;
+  }
+
+  try {
+    await ensurePromptBaseline(assistantId);
+    await updateAssistantPrompt(assistantId, systemMessage);
+    const entry = recordPrompt(systemMessage, "manual", note);
+    res.json({ ok: true, version: entry.version });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/prompt/history", requireRole("viewer"), (_req, res) => {
+  const history = getPromptHistory();
+  res.json({
+    count: history.length,
+    versions: history.map((v) => ({
+      version: v.version,
+      source: v.source,
+      timestamp: v.timestamp,
+      note: v.note,
+      length: v.prompt.length,
+      preview: v.prompt.slice(0, 120),
+    })),
+  });
+});
+
+app.get("/prompt/history/:version", requireRole("viewer"), (req, res) => {
+  const entry = getPromptVersion(Number(req.params.version));
+  if (!entry) {
+    res.status(404).json({ error: `No prompt version ${req.params.version}` });
+    return;
+  }
+  res.json(entry);
+});
+
+// ?from=N&to=M — "to" defaults to the latest version, "from" to the one before it
+app.get("/prompt/diff", requireRole("viewer"), (req, res) => {
+  const history = getPromptHistory();
+  const latest = history[history.length - 1]?.version || 0;
+  const to = req.query.to ? Number(req.query.to) : latest;
+  const from = req.query.from ? Number(req.query.from) : to - 1;
+
+  const result = diffPromptVersions(from, to);
+  if (!result) {
+    res.status(404).json({ error: `Prompt versions ${from}/${to} not found` });
+    return;
+  }
+  res.json({
+    from: { version: result.from.version, source: result.from.source, timestamp: result.from.timestamp },
+    to: { version: result.to.version, source: result.to.source, timestamp: result.to.timestamp },
+    added: result.diff.filter((d) => d.op === "+").length,
+    removed: result.diff.filter((d) => d.op === "-").length,
+    diff: formatDiff(result.diff),
+  });
+});
+
+app.post("/prompt/restore/:version", requireRole("admin"), async (req, res) => {
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  if (!assistantId) {
+    res.status(400).json({ error: "VAPI_ASSISTANT_ID not set" });
+    return;
+  }
+  const entry = getPromptVersion(Number(req.params.version));
+  if (!entry) {
+    res.status(404).json({ error: `No prompt version ${req.params.version}` });
+    return;
+  }
+
+  try {
+    await updateAssistantPrompt(assistantId, entry.prompt);
+    const restored = recordPrompt(entry.prompt, "manual", `restored from v${entry.version}`);
+    res.json({ ok: true, restoredFrom: entry.version, version: restored.version });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
 // --- Reset to baseline ---
 
-app.post("/reset", async (_req, res) => {
+app.post("/reset", requireRole("admin"), async (_req, res) => {
   const assistantId = process.env.VAPI_ASSISTANT_ID;
   if (!assistantId) {
     res.status(400).json({ error: "VAPI_ASSISTANT_ID not set" });
@@ -325,13 +838,13 @@ app.post("/reset", async (_req, res) => {
 
 // --- Get baseline config ---
 
-app.get("/baseline", (_req, res) => {
+app.get("/baseline", requireRole("viewer"), (_req, res) => {
   res.json({ baseline: BASELINE });
 });
 
 // --- Full state: before vs after comparison ---
 
-app.get("/state", async (_req, res) => {
+app.get("/state", requireRole("viewer"), async (_req, res) => {
   const assistantId = process.env.VAPI_ASSISTANT_ID;
   if (!assistantId) {
     res.status(400).json({ error: "VAPI_ASSISTANT_ID not set" });
@@ -369,12 +882,271 @@ app.get("/state", async (_req, res) => {
   }
 });
 
+// --- Conversation memory (WhatsApp chats) ---
+
+app.get("/conversations", requireRole("viewer"), (_req, res) => {
+  const conversations = listConversations();
+  res.json({
+    count: conversations.length,
+    conversations: conversations.map((c) => ({
+      chatId: c.chatId,
+      callerPhone: c.callerPhone,
+      channel: c.channel,
+      createdAt: c.createdAt,
+      lastActivity: c.lastActivity,
+      turns: c.turns.length,
+    })),
+  });
+});
+
+app.get("/conversations/:chatId", requireRole("viewer"), (req, res) => {
+  const conversation = getConversation(req.params.chatId);
+  if (!conversation) {
+    res.status(404).json({ error: `No active conversation for ${req.params.chatId}` });
+    return;
+  }
+  res.json({ ...conversation, rendered: renderHistory(req.params.chatId) });
+});
+
+app.delete("/conversations/:chatId", requireRole("operator"), (req, res) => {
+  res.json({ ok: clearConversation(req.params.chatId) });
+});
+
+// --- Shipments (read-only view of the configured provider) ---
+
+app.get("/shipments", requireRole("viewer"), async (_req, res) => {
+  const provider = getShipmentProvider();
+  res.json({ provider: provider.name, shipments: await provider.list() });
+});
+
+// TMS status webhook: a single event or {events: [...]}
+app.post("/shipments/events", verifyWebhook("shipments"), async (req, res) => {
+  const body = req.body as ShipmentEventInput | { events?: ShipmentEventInput[] };
+  const inputs = "events" in body && Array.isArray(body.events) ? body.events : [body as ShipmentEventInput];
+  if (!inputs.length || inputs.some((e) => !e?.reference || (!e.type && !e.status))) {
+    res.status(400).json({ error: "each event needs a reference and a type or status" });
+    return;
+  }
+  const recorded = [];
+  for (const input of inputs) recorded.push(await recordEvent(input, "webhook"));
+  res.json({ events: recorded });
+});
+
+app.get("/shipments/events", requireRole("viewer"), (req, res) => {
+  res.json({ events: listEvents(Number(req.query.limit) || 100) });
+});
+
+app.post("/shipments/poll", requireRole("operator"), async (_req, res) => {
+  res.json({ events: await pollShipments() });
+});
+
+app.get("/shipments/subscriptions", requireRole("viewer"), (_req, res) => {
+  res.json({ subscriptions: listSubscriptions() });
+});
+
+app.get("/shipments/:reference/events", requireRole("viewer"), (req, res) => {
+  res.json({ reference: req.params.reference, events: getTimeline(req.params.reference) });
+});
+
+app.post("/shipments/:reference/subscriptions", requireRole("operator"), (req, res) => {
+  const { phone } = req.body as { phone?: string };
+  const check = validateReference(req.params.reference);
+  if (!check.valid) {
+    res.status(422).json({ error: describeReferenceProblem(check), check });
+    return;
+  }
+  if (!phone) {
+    res.status(400).json({ error: "phone required" });
+    return;
+  }
+  res.json(subscribe(check.normalized, phone));
+});
+
+app.delete("/shipments/:reference/subscriptions", requireRole("operator"), (req, res) => {
+  const phone = typeof req.query.phone === "string" ? req.query.phone : undefined;
+  res.json({ ok: unsubscribe(req.params.reference, phone) });
+});
+
+app.get("/shipments/:reference", requireRole("viewer"), async (req, res) => {
+  const check = validateReference(req.params.reference);
+  if (!check.valid) {
+    res.status(422).json({ error: describeReferenceProblem(check), check });
+    return;
+  }
+  try {
+    const shipment = await getShipmentProvider().get(check.normalized);
+    if (!shipment) {
+      res.status(404).json({ error: `No shipment ${check.normalized}` });
+      return;
+    }
+    res.json(shipment);
+  } catch (err) {
+    res.status(502).json({ error: (err as Error).message });
+  }
+});
+
+// --- Admin auth ---
+
+// Lets the dashboard check which role a key carries before showing controls
+app.get("/auth/me", (req, res) => {
+  const identity = identify(req);
+  if (!identity) {
+    res.status(401).json({ error: "unauthorized" });
+    return;
+  }
+  res.json(identity);
+});
+
+// --- Webhook auth counters ---
+
+app.get("/webhooks/stats", requireRole("viewer"), (_req, res) => {
+  res.json(getWebhookAuthStats());
+});
+
+// --- Delivery scheduling ---
+
+function sendSchedulingError(res: express.Response, err: unknown) {
+  if (!(err instanceof SchedulingError)) {
+    res.status(500).json({ error: (err as Error).message });
+    return;
+  }
+  const status =
+    err.code === "not_found"
+      ? 404
+      : ["slot_full", "no_truck", "already_cancelled", "already_booked", "customs_hold"].includes(err.code)
+        ? 409
+        : 422;
+  res.status(status).json({ error: err.message, code: err.code });
+}
+
+app.get("/warehouses", requireRole("viewer"), (_req, res) => {
+  res.json({ warehouses: WAREHOUSES, trucks: TRUCKS });
+});
+
+app.get("/deliveries/availability", requireRole("viewer"), (req, res) => {
+  const { warehouse, date } = req.query as { warehouse?: string; date?: string };
+  if (!warehouse || !date) {
+    res.status(400).json({ error: "warehouse and date required" });
+    return;
+  }
+  try {
+    res.json(getAvailability(warehouse, date));
+  } catch (err) {
+    sendSchedulingError(res, err);
+  }
+});
+
+app.get("/deliveries", requireRole("viewer"), (req, res) => {
+  const { reference, warehouse, date, status } = req.query as Record<string, string | undefined>;
+  res.json({
+    deliveries: listDeliveries({
+      reference,
+      warehouseId: warehouse,
+      date,
+      status: status as DeliveryBooking["status"] | undefined,
+    }),
+  });
+});
+
+app.post("/deliveries", requireRole("operator"), async (req, res) => {
+  const { reference, warehouse, date, slot, phone } = req.body as Record<string, string | undefined>;
+  if (!reference || !warehouse || !date || !slot) {
+    res.status(400).json({ error: "reference, warehouse, date and slot required" });
+    return;
+  }
+  try {
+    res.json(await bookDelivery({ reference, warehouse, date, slot, phone }));
+  } catch (err) {
+    sendSchedulingError(res, err);
+  }
+});
+
+app.get("/deliveries/:id", requireRole("viewer"), (req, res) => {
+  const delivery = getDelivery(req.params.id);
+  if (!delivery) {
+    res.status(404).json({ error: `No delivery ${req.params.id}` });
+    return;
+  }
+  res.json(delivery);
+});
+
+app.patch("/deliveries/:id", requireRole("operator"), (req, res) => {
+  const { date, slot, warehouse } = req.body as Record<string, string | undefined>;
+  try {
+    res.json(rescheduleDelivery(req.params.id, { date, slot, warehouse }));
+  } catch (err) {
+    sendSchedulingError(res, err);
+  }
+});
+
+app.delete("/deliveries/:id", requireRole("operator"), (req, res) => {
+  const { reason } = (req.body || {}) as { reason?: string };
+  try {
+    res.json(cancelDelivery(req.params.id, reason));
+  } catch (err) {
+    sendSchedulingError(res, err);
+  }
+});
+
+// --- Shipping documents (BL / delivery order extraction) ---
+
+app.get("/documents", requireRole("viewer"), (req, res) => {
+  const documents = listDocuments(req.query.phone ? String(req.query.phone) : undefined);
+  res.json({ count: documents.length, documents });
+});
+
+app.get("/documents/:id", requireRole("viewer"), (req, res) => {
+  const doc = getDocument(req.params.id);
+  if (!doc) {
+    res.status(404).json({ error: "document not found" });
+    return;
+  }
+  res.json(doc);
+});
+
+// Either a WhatsApp media id/url, or the file itself as base64 `data`
+app.post("/documents/extract", requireRole("operator"), async (req, res) => {
+  const { mediaId, url, data, mimeType, fileName, phone } = req.body as {
+    mediaId?: string;
+    url?: string;
+    data?: string;
+    mimeType?: string;
+    fileName?: string;
+    phone?: string;
+  };
+  if (!mediaId && !url && !data) {
+    res.status(400).json({ error: "mediaId, url or data required" });
+    return;
+  }
+  if (data && !mimeType) {
+    res.status(400).json({ error: "mimeType required with data" });
+    return;
+  }
+
+  try {
+    if (data) {
+      const doc = await extractShippingDocument({ data: Buffer.from(data, "base64"), mimeType: mimeType!, fileName });
+      res.json(phone ? attachDocument(doc, phone) : doc);
+    } else {
+      res.json(await readShippingDocument({ mediaId: mediaId || url!, url, mimeType, fileName, phone }));
+    }
+  } catch (err) {
+    if (err instanceof DocumentError) {
+      const status = err.code === "download_failed" ? 502 : err.code === "too_large" ? 413 : 422;
+      res.status(status).json({ error: err.message, code: err.code });
+      return;
+    }
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
 // --- Test brain ---
 
-app.post("/test/brain", async (req, res) => {
-  const { message, channel } = req.body as {
+app.post("/test/brain", requireRole("operator"), async (req, res) => {
+  const { message, channel, chatId } = req.body as {
     message: string;
     channel?: string;
+    chatId?: string;
   };
 
   if (!message) {
@@ -382,8 +1154,12 @@ app.post("/test/brain", async (req, res) => {
     return;
   }
 
-  const { decision, result } = await decide(message, { channel });
-  res.json({ decision, result });
+  // The body picks how the reply is rendered, not who is asking: prompt rewrites
+  // see an "admin" origin only for admin keys, otherwise "test"
+  const role = (req as AuthedRequest).admin?.role;
+  const origin = { channel: role === "admin" ? "admin" : "test" };
+  const { decision, result, parts, trace } = await decide(message, { channel, chatId, origin });
+  res.json({ decision, result, parts, trace });
 });
 
 // --- Start ---
@@ -397,13 +1173,30 @@ app.listen(PORT, () => {
   console.log(`\nEndpoints:`);
   console.log(`  POST /vapi/tool-calls      — Vapi tool call webhook`);
   console.log(`  POST /vapi/server-message   — End-of-call → self-improvement pipeline`);
-  console.log(`  POST /whapi/incoming        — WhatsApp incoming`);
+  console.log(`  POST /whapi/incoming        — WhatsApp incoming (acked, then queued per chat)`);
   console.log(`  POST /improve              — Manual self-improvement (callId/transcript)`);
+  console.log(`  GET  /improvements/pending — Change sets awaiting approval (POST /:id/approve|reject)`);
+  console.log(`  POST /improvements/:id/rollback — Undo an applied improvement`);
   console.log(`  POST /calls/create         — Create outbound call`);
   console.log(`  POST /reset                — Reset assistant to weak baseline`);
   console.log(`  GET  /calls/:id            — Get call transcript`);
-  console.log(`  GET  /prompt               — View current assistant prompt`);
+  console.log(`  GET  /prompt               — View current assistant prompt (PUT to edit)`);
+  console.log(`  GET  /prompt/history       — Prompt versions (+ /prompt/diff, POST /prompt/restore/:version)`);
   console.log(`  GET  /baseline             — View baseline config`);
   console.log(`  GET  /state                — Full before/after comparison`);
+  console.log(`  GET  /tools                — List tools (POST to create, /tools/:name to inspect/update/delete)`);
+  console.log(`  POST /tools/:name/invoke   — Invoke a tool (dry run by default)`);
+  console.log(`  GET  /tools/:name/versions  — Tool version history (+ /diff, POST /rollback)`);
+  console.log(`  GET  /conversations        — Active WhatsApp conversation memory`);
+  console.log(`  GET  /shipments            — Shipment data from the configured provider`);
+  console.log(`  POST /shipments/events     — TMS status webhook → timeline + subscriber notifications`);
+  console.log(`  GET  /deliveries           — Delivery slot bookings (+ /availability, POST to book)`);
+  console.log(`  POST /documents/extract    — Read a BL / delivery order (GET /documents for extracted ones)`);
+  console.log(`  GET  /webhooks/stats       — Webhook auth accepted/rejected counters`);
+  console.log(`  GET  /auth/me              — Role of the presented admin API key`);
   console.log(`  GET  /health               — Tools + improvement history\n`);
+  logWebhookAuthConfig();
+  logAdminAuthConfig();
+  startShipmentPolling();
+  resumeInterrupted(handleWhatsAppMessage);
 });
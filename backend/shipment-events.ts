@@ -0,0 +1,331 @@
+import { randomUUID } from "node:crypto";
+import { loadJson, saveJson } from "./storage.js";
+import { sendWhatsApp } from "./integrations.js";
+import { createOutboundCall } from "./vapi.js";
+import { getShipmentProvider, type Shipment } from "./shipments.js";
+import { normalizeReference } from "./reference-validation.js";
+import { renderForVoice, renderForWhatsApp } from "./render.js";
+
+// --- Shipment event timeline + proactive customer notifications ---
+// Events arrive from the TMS webhook (POST /shipments/events) or from polling the
+// shipment provider. Customers subscribed to a container/booking get a WhatsApp
+// on every change, and a phone call for critical ones like customs holds.
+
+export type ShipmentEventType =
+  | "customs_cleared"
+  | "customs_hold"
+  | "arrived"
+  | "gated_out"
+  | "in_transit"
+  | "delivered"
+  | "eta_changed"
+  | "status_changed";
+
+export interface ShipmentNotification {
+  phone: string;
+  via: "whatsapp" | "call";
+  ok: boolean;
+  callId?: string;
+  error?: string;
+}
+
+export interface ShipmentEvent {
+  id: string;
+  reference: string;
+  type: ShipmentEventType;
+  status?: string;
+  description?: string;
+  location?: string;
+  eta?: string;
+  occurredAt: string;
+  receivedAt: string;
+  source: "webhook" | "poll";
+  notifications: ShipmentNotification[];
+}
+
+export type ShipmentEventInput = Partial<
+  Pick<ShipmentEvent, "type" | "status" | "description" | "location" | "eta" | "occurredAt">
+> & { reference: string };
+
+export interface ShipmentSubscription {
+  reference: string;
+  phones: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const EVENTS_STORE = "shipment-events";
+const SUBSCRIPTIONS_STORE = "shipment-subscriptions";
+const SNAPSHOTS_STORE = "shipment-snapshots";
+const MAX_EVENTS = 5000;
+
+const EVENT_TYPES: ShipmentEventType[] = [
+  "customs_cleared",
+  "customs_hold",
+  "arrived",
+  "gated_out",
+  "in_transit",
+  "delivered",
+  "eta_changed",
+  "status_changed",
+];
+
+const events: ShipmentEvent[] = loadJson<ShipmentEvent[]>(EVENTS_STORE, []);
+const subscriptions: ShipmentSubscription[] = loadJson<ShipmentSubscription[]>(SUBSCRIPTIONS_STORE, []);
+// Last polled state per reference, so polling only reports changes
+const snapshots: Record<string, Pick<Shipment, "status" | "customs" | "eta">> = loadJson(SNAPSHOTS_STORE, {});
+
+function criticalTypes(): ShipmentEventType[] {
+  const configured = (process.env.SHIPMENT_CRITICAL_EVENTS || "customs_hold")
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return configured.filter((t): t is ShipmentEventType => EVENT_TYPES.includes(t as ShipmentEventType));
+}
+
+function normalizePhone(phone: string): string {
+  return phone.split("@")[0].replace(/\D/g, "");
+}
+
+// --- Subscriptions ---
+
+export function listSubscriptions(): ShipmentSubscription[] {
+  return subscriptions;
+}
+
+export function getSubscription(reference: string): ShipmentSubscription | undefined {
+  const ref = normalizeReference(reference);
+  return subscriptions.find((s) => s.reference === ref);
+}
+
+export function subscribe(reference: string, phone: string): ShipmentSubscription {
+  const ref = normalizeReference(reference);
+  const number = normalizePhone(phone);
+  if (!number) throw new Error("phone required");
+  const now = new Date().toISOString();
+  let sub = getSubscription(ref);
+  if (!sub) {
+    sub = { reference: ref, phones: [], createdAt: now, updatedAt: now };
+    subscriptions.push(sub);
+  }
+  if (!sub.phones.includes(number)) sub.phones.push(number);
+  sub.updatedAt = now;
+  saveJson(SUBSCRIPTIONS_STORE, subscriptions);
+  console.log(`[shipment-events] ${number} subscribed to ${ref}`);
+  return sub;
+}
+
+// Without a phone, drops the whole subscription
+export function unsubscribe(reference: string, phone?: string): boolean {
+  const sub = getSubscription(reference);
+  if (!sub) return false;
+  if (phone) {
+    const number = normalizePhone(phone);
+    const before = sub.phones.length;
+    sub.phones = sub.phones.filter((p) => p !== number);
+    if (sub.phones.length === before) return false;
+    sub.updatedAt = new Date().toISOString();
+  }
+  if (!phone || !sub.phones.length) subscriptions.splice(subscriptions.indexOf(sub), 1);
+  saveJson(SUBSCRIPTIONS_STORE, subscriptions);
+  return true;
+}
+
+// --- Timeline ---
+
+export function getTimeline(reference: string): ShipmentEvent[] {
+  const ref = normalizeReference(reference);
+  return events.filter((e) => e.reference === ref);
+}
+
+export function listEvents(limit = 100): ShipmentEvent[] {
+  return events.slice(-limit).reverse();
+}
+
+// Map a free-form TMS status onto one of our event types
+export function classifyStatus(status: string | undefined): ShipmentEventType {
+  const s = (status || "").toLowerCase();
+  if (/hold|detain|inspection/.test(s)) return "customs_hold";
+  if (/cleared|released/.test(s)) return "customs_cleared";
+  if (/deliver/.test(s)) return "delivered";
+  if (/gate[d_ ]*out|gate-out/.test(s)) return "gated_out";
+  if (/transit|en route|dispatched/.test(s)) return "in_transit";
+  if (/arriv|discharg|at[_ ]port/.test(s)) return "arrived";
+  return "status_changed";
+}
+
+const EVENT_LABELS: Record<ShipmentEventType, { emoji: string; text: string }> = {
+  customs_cleared: { emoji: "✅", text: "has cleared customs" },
+  customs_hold: { emoji: "⚠️", text: "is on customs hold" },
+  arrived: { emoji: "🚢", text: "has arrived at port" },
+  gated_out: { emoji: "🚛", text: "has gated out of the port" },
+  in_transit: { emoji: "🚚", text: "is in transit" },
+  delivered: { emoji: "✅", text: "has been delivered" },
+  eta_changed: { emoji: "🕒", text: "has a new ETA" },
+  status_changed: { emoji: "ℹ️", text: "has a status update" },
+};
+
+function formatEta(eta: string): string {
+  return new Date(eta).toLocaleString("en-GB", { timeZone: "Asia/Dubai", dateStyle: "medium", timeStyle: "short" });
+}
+
+// Follow-up line per event type; customers only ever see our own wording, never
+// the free-text description a webhook sent
+const EVENT_FOLLOW_UPS: Partial<Record<ShipmentEventType, string>> = {
+  customs_hold: "Our operations team is on it — reply here if you have questions.",
+  customs_cleared: "Reply here to book a delivery slot.",
+  arrived: "We'll let you know once it clears customs.",
+};
+
+function notificationText(event: ShipmentEvent): string {
+  const label = EVENT_LABELS[event.type];
+  const lines = [`${label.emoji} Ruya Logistics update: *${event.reference}* ${label.text}.`];
+  if (event.location) lines.push(`Location: ${event.location}`);
+  if (event.eta && !Number.isNaN(Date.parse(event.eta))) lines.push(`ETA: ${formatEta(event.eta)}`);
+  if (EVENT_FOLLOW_UPS[event.type]) lines.push(EVENT_FOLLOW_UPS[event.type]!);
+  return lines.join("\n");
+}
+
+async function notifySubscribers(event: ShipmentEvent) {
+  const sub = getSubscription(event.reference);
+  if (!sub?.phones.length) return;
+
+  const critical = criticalTypes().includes(event.type);
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  for (const phone of sub.phones) {
+    if (critical && assistantId) {
+      try {
+        // Only our own wording is spoken; the free-text description from the
+        // webhook never reaches the call script
+        const callId = await createOutboundCall(assistantId, `+${phone}`, process.env.VAPI_PHONE_NUMBER_ID, {
+          firstMessage: renderForVoice(
+            `Hello, this is Ruya Logistics calling about ${event.reference}. It ${EVENT_LABELS[event.type].text}.`
+          ),
+          variableValues: { shipmentReference: event.reference, shipmentEvent: event.type },
+        });
+        event.notifications.push({ phone, via: "call", ok: true, callId });
+        continue;
+      } catch (err) {
+        // Fall through to WhatsApp so the customer still hears about it
+        console.error(`[shipment-events] Call to ${phone} failed:`, err);
+        event.notifications.push({ phone, via: "call", ok: false, error: (err as Error).message });
+      }
+    }
+
+    let ok = true;
+    for (const part of renderForWhatsApp(notificationText(event))) {
+      const result = await sendWhatsApp(phone, part).catch((err) => {
+        console.error(`[shipment-events] WhatsApp to ${phone} failed:`, err);
+        return { sent: false };
+      });
+      ok &&= result.sent;
+    }
+    event.notifications.push({ phone, via: "whatsapp", ok });
+  }
+  console.log(
+    `[shipment-events] Notified ${sub.phones.length} subscriber(s) of ${event.type} on ${event.reference}`
+  );
+}
+
+export async function recordEvent(input: ShipmentEventInput, source: ShipmentEvent["source"]): Promise<ShipmentEvent> {
+  const reference = normalizeReference(input.reference);
+  const type = input.type && EVENT_TYPES.includes(input.type) ? input.type : classifyStatus(input.status);
+  const occurredAt = input.occurredAt || new Date().toISOString();
+
+  // TMS webhooks retry with fresh timestamps, so an exact repeat of the
+  // reference's latest event is the same event and shouldn't message anyone
+  // twice. A new ETA, location or description is a new event.
+  const latest = events.findLast((e) => e.reference === reference);
+  if (
+    latest &&
+    latest.type === type &&
+    latest.status === input.status &&
+    latest.eta === input.eta &&
+    latest.location === input.location &&
+    latest.description === input.description
+  ) {
+    return latest;
+  }
+
+  const event: ShipmentEvent = {
+    id: randomUUID(),
+    reference,
+    type,
+    status: input.status,
+    description: input.description,
+    location: input.location,
+    eta: input.eta,
+    occurredAt,
+    receivedAt: new Date().toISOString(),
+    source,
+    notifications: [],
+  };
+  events.push(event);
+  if (events.length > MAX_EVENTS) events.splice(0, events.length - MAX_EVENTS);
+  console.log(`[shipment-events] ${reference}: ${type} (${source})`);
+
+  await notifySubscribers(event);
+  saveJson(EVENTS_STORE, events);
+  return event;
+}
+
+// --- Polling adapter ---
+
+// Compare the provider's current view with the last snapshot; the first poll of a
+// reference only records a baseline
+function diffShipment(shipment: Shipment): ShipmentEventInput[] {
+  const previous = snapshots[shipment.reference];
+  if (!previous) return [];
+
+  const changes: ShipmentEventInput[] = [];
+  const base = { reference: shipment.reference, location: shipment.location, eta: shipment.eta };
+  if (shipment.customs !== previous.customs && (shipment.customs === "cleared" || shipment.customs === "hold")) {
+    changes.push({ ...base, type: shipment.customs === "cleared" ? "customs_cleared" : "customs_hold", status: shipment.status, description: shipment.notes });
+  }
+  // A status like "customs hold" already produced its event above
+  const statusType = classifyStatus(shipment.status);
+  if (shipment.status !== previous.status && !changes.some((c) => c.type === statusType)) {
+    changes.push({ ...base, type: statusType, status: shipment.status, description: shipment.notes });
+  }
+  if (!changes.length && shipment.eta && shipment.eta !== previous.eta) {
+    changes.push({ ...base, type: "eta_changed", status: shipment.status });
+  }
+  return changes;
+}
+
+export async function pollShipments(): Promise<ShipmentEvent[]> {
+  const provider = getShipmentProvider();
+  const recorded: ShipmentEvent[] = [];
+  for (const sub of subscriptions) {
+    try {
+      const shipment = await provider.get(sub.reference);
+      if (!shipment) continue;
+      for (const change of diffShipment(shipment)) recorded.push(await recordEvent(change, "poll"));
+      snapshots[shipment.reference] = { status: shipment.status, customs: shipment.customs, eta: shipment.eta };
+    } catch (err) {
+      console.error(`[shipment-events] Poll of ${sub.reference} failed:`, err);
+    }
+  }
+  saveJson(SNAPSHOTS_STORE, snapshots);
+  return recorded;
+}
+
+let pollTimer: NodeJS.Timeout | undefined;
+
+// SHIPMENT_POLL_SECONDS=0 (default) leaves polling off and relies on the webhook
+export function startShipmentPolling() {
+  const seconds = Number(process.env.SHIPMENT_POLL_SECONDS) || 0;
+  if (!seconds || pollTimer) return;
+  let running = false;
+  pollTimer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await pollShipments();
+    } finally {
+      running = false;
+    }
+  }, seconds * 1000);
+  pollTimer.unref();
+  console.log(`[shipment-events] Polling ${getShipmentProvider().name} provider every ${seconds}s`);
+}
@@ -0,0 +1,205 @@
+import fs from "node:fs";
+import path from "node:path";
+import { normalizeReference } from "./reference-validation.js";
+
+// --- Pluggable shipment data source behind check_shipment_status ---
+// SHIPMENT_PROVIDER=file (default) reads a JSON or CSV fixture for local testing;
+// SHIPMENT_PROVIDER=http queries the TMS API in production.
+
+export type CustomsState = "not_started" | "pending" | "inspection" | "hold" | "cleared";
+
+export interface Shipment {
+  reference: string; // container number or booking reference
+  kind: "container" | "booking";
+  bookingRef?: string; // booking a container belongs to
+  containers?: string[]; // containers on a booking
+  size?: string; // e.g. "20ft", "40ft", "40ft HC"
+  status: string; // e.g. "at_port", "in_transit", "delivered"
+  location?: string;
+  destination?: string;
+  eta?: string; // ISO timestamp
+  customs?: CustomsState;
+  notes?: string;
+  updatedAt?: string;
+}
+
+export interface ShipmentProvider {
+  readonly name: string;
+  get(reference: string): Promise<Shipment | undefined>;
+  list(): Promise<Shipment[]>;
+}
+
+const CUSTOMS_STATES: CustomsState[] = ["not_started", "pending", "inspection", "hold", "cleared"];
+
+// Accept loosely-shaped records (CSV rows, TMS payloads) and coerce to Shipment
+function toShipment(raw: Record<string, unknown>): Shipment | undefined {
+  const str = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : String(v));
+  const reference = str(raw.reference ?? raw.container ?? raw.containerNumber ?? raw.booking);
+  if (!reference) return undefined;
+  const normalized = normalizeReference(reference);
+  const customs = str(raw.customs ?? raw.customsStatus)?.toLowerCase().replace(/\s+/g, "_");
+  const containers = Array.isArray(raw.containers)
+    ? raw.containers.map(String)
+    : str(raw.containers)?.split(/[;|]/).map((c) => c.trim()).filter(Boolean);
+  return {
+    reference: normalized,
+    kind: str(raw.kind) === "booking" || /^BK\d{8}$/.test(normalized) ? "booking" : "container",
+    bookingRef: str(raw.bookingRef ?? raw.booking_ref),
+    containers,
+    size: str(raw.size),
+    status: str(raw.status) || "unknown",
+    location: str(raw.location),
+    destination: str(raw.destination),
+    eta: str(raw.eta),
+    customs: CUSTOMS_STATES.includes(customs as CustomsState) ? (customs as CustomsState) : undefined,
+    notes: str(raw.notes),
+    updatedAt: str(raw.updatedAt ?? raw.updated_at),
+  };
+}
+
+// Minimal RFC 4180 reader: header row, quoted fields, "" escapes
+function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((f) => f.trim()));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return body.map((r) => Object.fromEntries(keys.map((k, i) => [k, (r[i] ?? "").trim()])));
+}
+
+class FileShipmentProvider implements ShipmentProvider {
+  readonly name = "file";
+  private shipments = new Map<string, Shipment>();
+  private loadedMtime = 0;
+
+  constructor(private readonly file: string) {}
+
+  // Re-read when the file changes so fixtures can be edited while the server runs
+  private load() {
+    let mtime: number;
+    try {
+      mtime = fs.statSync(this.file).mtimeMs;
+    } catch {
+      if (this.loadedMtime !== -1) console.warn(`[shipments] ${this.file} not found — no shipment data`);
+      this.loadedMtime = -1;
+      this.shipments.clear();
+      return;
+    }
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      const text = fs.readFileSync(this.file, "utf8");
+      const rows: Record<string, unknown>[] = this.file.endsWith(".csv") ? parseCsv(text) : JSON.parse(text);
+      this.shipments = new Map(
+        rows.map(toShipment).filter((s): s is Shipment => Boolean(s)).map((s) => [s.reference, s])
+      );
+      this.loadedMtime = mtime;
+      console.log(`[shipments] Loaded ${this.shipments.size} shipments from ${this.file}`);
+    } catch (err) {
+      console.error(`[shipments] Failed to read ${this.file}:`, err);
+    }
+  }
+
+  async get(reference: string) {
+    this.load();
+    return this.shipments.get(normalizeReference(reference));
+  }
+
+  async list() {
+    this.load();
+    return Array.from(this.shipments.values());
+  }
+}
+
+class HttpShipmentProvider implements ShipmentProvider {
+  readonly name = "http";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  private async request(pathname: string): Promise<Response> {
+    return fetch(`${this.baseUrl}${pathname}`, {
+      headers: {
+        Accept: "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+  }
+
+  async get(reference: string) {
+    const res = await this.request(`/shipments/${encodeURIComponent(normalizeReference(reference))}`);
+    if (res.status === 404) return undefined;
+    if (!res.ok) throw new Error(`TMS lookup failed (${res.status}): ${await res.text()}`);
+    return toShipment((await res.json()) as Record<string, unknown>);
+  }
+
+  // Used for "did you mean" suggestions — a TMS without a list endpoint just gets none
+  async list() {
+    try {
+      const res = await this.request("/shipments");
+      if (!res.ok) return [];
+      const data = (await res.json()) as Record<string, unknown>[] | { shipments?: Record<string, unknown>[] };
+      const rows = Array.isArray(data) ? data : data.shipments || [];
+      return rows.map(toShipment).filter((s): s is Shipment => Boolean(s));
+    } catch (err) {
+      console.warn("[shipments] TMS list failed:", (err as Error).message);
+      return [];
+    }
+  }
+}
+
+export function createShipmentProvider(): ShipmentProvider {
+  const kind = process.env.SHIPMENT_PROVIDER || "file";
+  if (kind === "http") {
+    const baseUrl = (process.env.TMS_API_URL || "").replace(/\/+$/, "");
+    if (!baseUrl) throw new Error("SHIPMENT_PROVIDER=http requires TMS_API_URL");
+    return new HttpShipmentProvider(
+      baseUrl,
+      process.env.TMS_API_KEY || "",
+      Number(process.env.TMS_TIMEOUT_MS) || 5000
+    );
+  }
+  const file = process.env.SHIPMENT_FILE || path.join(process.cwd(), "backend", "fixtures", "shipments.json");
+  return new FileShipmentProvider(file);
+}
+
+let provider: ShipmentProvider | undefined;
+
+export function getShipmentProvider(): ShipmentProvider {
+  if (!provider) {
+    provider = createShipmentProvider();
+    console.log(`[shipments] Using ${provider.name} provider`);
+  }
+  return provider;
+}
@@ -0,0 +1,36 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// --- File-backed JSON persistence ---
+// Each store is a single JSON file under DATA_DIR. Writes go to a temp file
+// first and are renamed into place so a crash mid-write never corrupts state.
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+function filePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export function loadJson<T>(name: string, fallback: T): T {
+  const file = filePath(name);
+  if (!fs.existsSync(file)) return fallback;
+
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+  } catch (err) {
+    console.error(`[storage] Failed to read ${file}, using empty state:`, err);
+    return fallback;
+  }
+}
+
+export function saveJson(name: string, data: unknown): void {
+  const file = filePath(name);
+  try {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, file);
+  } catch (err) {
+    console.error(`[storage] Failed to write ${file}:`, err);
+  }
+}
@@ -0,0 +1,142 @@
+import type { VapiToolDefinition } from "./types.js";
+import { runInSandbox, defaultPolicy, SandboxError, type SandboxCapability } from "./sandbox.js";
+
+// --- Smoke tests for generated tools ---
+// Handlers run in the sandbox against a mocked ctx: every capability call is
+// recorded and answered with a canned response, nothing is actually sent.
+
+type Parameters = VapiToolDefinition["function"]["parameters"];
+
+export interface ToolTestCase {
+  args: Record<string, unknown>;
+  expectContains?: string;
+}
+
+export interface CapturedCall {
+  method: SandboxCapability;
+  params: unknown[];
+}
+
+export interface ToolTestCaseResult {
+  args: Record<string, unknown>;
+  passed: boolean;
+  output?: string;
+  error?: string;
+  calls: CapturedCall[];
+}
+
+export interface ToolTestReport {
+  passed: boolean;
+  cases: ToolTestCaseResult[];
+}
+
+// Realistic placeholder values keyed off the parameter name/description
+const SAMPLES: { match: RegExp; value: unknown }[] = [
+  { match: /phone|mobile|whatsapp|number to call/i, value: "971500000000" },
+  { match: /e-?mail/i, value: "ops@example.com" },
+  { match: /container/i, value: "CONU1234562" },
+  { match: /booking|reference/i, value: "BK20240001" },
+  { match: /\bdate\b|\bday\b/i, value: new Date().toISOString().slice(0, 10) },
+  { match: /\btime\b|\bslot\b/i, value: "10:00" },
+  { match: /url|link|webhook/i, value: "https://example.com" },
+  { match: /warehouse|destination|address|location/i, value: "Al Quoz warehouse" },
+  { match: /size|ft\b/i, value: "40ft" },
+  { match: /name/i, value: "Test Customer" },
+];
+
+function sampleFor(key: string, prop: { type: string; description: string }): unknown {
+  switch (prop.type) {
+    case "number":
+    case "integer":
+      return 1;
+    case "boolean":
+      return true;
+    case "array":
+      return [];
+    case "object":
+      return {};
+  }
+  const haystack = `${key} ${prop.description || ""}`;
+  return SAMPLES.find((s) => s.match.test(haystack))?.value ?? `sample ${key.replace(/_/g, " ")}`;
+}
+
+export function buildSampleArgs(parameters: Parameters): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  for (const [key, prop] of Object.entries(parameters.properties)) {
+    args[key] = sampleFor(key, prop);
+  }
+  return args;
+}
+
+function mockResponse(method: SandboxCapability, params: unknown[]): unknown {
+  switch (method) {
+    case "sendWhatsApp":
+    case "sendWhatsAppImage":
+    case "sendWhatsAppDocument":
+    case "sendWhatsAppButtons":
+    case "sendWhatsAppList":
+      return { sent: true, id: "mock-message-id" };
+    case "triggerN8nWorkflow":
+      return { mocked: true };
+    case "fetch":
+      return { ok: true, status: 200, body: JSON.stringify({ ok: true, mocked: true }) };
+    case "getShipment":
+      return {
+        reference: String(params[0]),
+        kind: "container",
+        size: "40ft",
+        status: "in_transit",
+        location: "Jebel Ali port",
+        destination: "Al Quoz warehouse",
+        eta: new Date(Date.now() + 2 * 3600_000).toISOString(),
+        customs: "cleared",
+      };
+    default:
+      return undefined;
+  }
+}
+
+async function runCase(handlerCode: string, testCase: ToolTestCase): Promise<ToolTestCaseResult> {
+  const calls: CapturedCall[] = [];
+  const policy = {
+    ...defaultPolicy(),
+    mockCapability: (method: SandboxCapability, params: unknown[]) => {
+      calls.push({ method, params });
+      return mockResponse(method, params);
+    },
+  };
+
+  try {
+    const output = await runInSandbox(handlerCode, testCase.args, policy);
+    if (!output.trim()) {
+      return { args: testCase.args, passed: false, output, error: "empty result", calls };
+    }
+    if (testCase.expectContains && !output.includes(testCase.expectContains)) {
+      return { args: testCase.args, passed: false, output, error: `expected output to contain "${testCase.expectContains}"`, calls };
+    }
+    return { args: testCase.args, passed: true, output, calls };
+  } catch (err) {
+    const error = err instanceof SandboxError ? `${err.code}: ${err.message}` : (err as Error).message;
+    return { args: testCase.args, passed: false, error, calls };
+  }
+}
+
+// Runs LLM-proposed cases when given, otherwise one case built from the schema
+export async function smokeTestTool(
+  spec: { parameters: Parameters; handlerCode: string },
+  testCases?: ToolTestCase[]
+): Promise<ToolTestReport> {
+  const cases = testCases?.length ? testCases : [{ args: buildSampleArgs(spec.parameters) }];
+  const results: ToolTestCaseResult[] = [];
+  for (const testCase of cases) {
+    results.push(await runCase(spec.handlerCode, testCase));
+  }
+  return { passed: results.every((r) => r.passed), cases: results };
+}
+
+export function summarizeCalls(calls: CapturedCall[]): string {
+  if (!calls.length) return "no side effects";
+  return calls
+    .map((c) => `ctx.${c.method}(${c.params.map((p) => JSON.stringify(p)).join(", ").slice(0, 120)})`)
+    .join(", ");
+}
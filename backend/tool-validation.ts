@@ -0,0 +1,161 @@
+import vm from "node:vm";
+import type { VapiToolDefinition } from "./types.js";
+
+// --- Static checks on generated tool specs, run before anything is registered ---
+
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: VapiToolDefinition["function"]["parameters"];
+  handlerCode: string;
+}
+
+export interface ToolValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export class ToolValidationError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly reasons: string[]
+  ) {
+    super(`Tool "${toolName}" rejected: ${reasons.join("; ")}`);
+    this.name = "ToolValidationError";
+  }
+}
+
+const BANNED: { pattern: RegExp; label: string }[] = [
+  { pattern: /\bprocess\b/, label: "process" },
+  { pattern: /\brequire\s*\(/, label: "require" },
+  { pattern: /\beval\s*\(/, label: "eval" },
+  { pattern: /\bglobalThis\b/, label: "globalThis" },
+  { pattern: /\bFunction\s*\(/, label: "Function constructor" },
+  { pattern: /\bimport\s*\(/, label: "dynamic import" },
+  { pattern: /\.constructor\b/, label: ".constructor access" },
+];
+
+// Blank out string contents and comments so banned words inside messages
+// ("processing your request") don't trip the checks. Template literal
+// ${...} expressions are kept since they are real code.
+function stripStringsAndComments(code: string): string {
+  let out = "";
+  let i = 0;
+  let braces = 0;
+  const templateDepth: number[] = []; // brace depth at each open ${
+  while (i < code.length) {
+    const c = code[i];
+    const next = code[i + 1];
+
+    if (c === "/" && next === "/") {
+      while (i < code.length && code[i] !== "\n") i++;
+      continue;
+    }
+    if (c === "/" && next === "*") {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+      out += " ";
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      i++;
+      while (i < code.length && code[i] !== c && code[i] !== "\n") i += code[i] === "\\" ? 2 : 1;
+      i++;
+      out += '""';
+      continue;
+    }
+    if (c === "`" || (c === "}" && templateDepth.length && templateDepth[templateDepth.length - 1] === braces)) {
+      if (c === "}") templateDepth.pop();
+      i++;
+      while (i < code.length && code[i] !== "`" && !(code[i] === "$" && code[i + 1] === "{")) {
+        i += code[i] === "\\" ? 2 : 1;
+      }
+      if (code[i] === "$") {
+        templateDepth.push(braces);
+        i += 2;
+        out += '"" + (';
+      } else {
+        i++;
+        out += '""';
+      }
+      continue;
+    }
+    if (c === "{") braces++;
+    if (c === "}") braces--;
+    out += c;
+    i++;
+  }
+  return out;
+}
+
+// `raw` is needed for args["key"] since stripping blanks the key itself
+function argsReferenced(code: string, raw: string): Set<string> {
+  const names = new Set<string>();
+  for (const m of code.matchAll(/\bargs\s*\.\s*([A-Za-z_$][\w$]*)/g)) names.add(m[1]);
+  for (const m of raw.matchAll(/\bargs\s*\[\s*["'`]([^"'`]+)["'`]\s*\]/g)) names.add(m[1]);
+  for (const m of code.matchAll(/\{([^{}]+)\}\s*=\s*args\b/g)) {
+    for (const part of m[1].split(",")) {
+      const key = part.split(/[:=]/)[0].trim();
+      if (/^[A-Za-z_$][\w$]*$/.test(key)) names.add(key);
+    }
+  }
+  return names;
+}
+
+export function validateToolSpec(spec: ToolSpec): ToolValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!/^[a-z][a-z0-9_]{1,63}$/.test(spec.name || "")) {
+    errors.push(`name "${spec.name}" must be snake_case (a-z, 0-9, _)`);
+  }
+  if (!spec.description?.trim()) errors.push("description is empty");
+
+  const properties = spec.parameters?.properties;
+  if (spec.parameters?.type !== "object" || !properties || typeof properties !== "object") {
+    errors.push("parameters must be an object schema with properties");
+  }
+  const declared = new Set(Object.keys(properties || {}));
+  for (const req of spec.parameters?.required || []) {
+    if (!declared.has(req)) errors.push(`required parameter "${req}" is not declared in properties`);
+  }
+
+  const code = spec.handlerCode;
+  if (typeof code !== "string" || !code.trim()) {
+    errors.push("handlerCode is empty");
+    return { valid: false, errors, warnings };
+  }
+
+  // 1. Parses — wrapped exactly the way the sandbox wraps it
+  try {
+    new vm.Script(`(async (args) => { ${code}\n})`, { filename: `${spec.name}.js` });
+  } catch (err) {
+    errors.push(`syntax error: ${(err as Error).message}`);
+  }
+
+  const stripped = stripStringsAndComments(code);
+
+  // 2. Banned constructs
+  for (const { pattern, label } of BANNED) {
+    if (pattern.test(stripped)) errors.push(`uses banned construct: ${label}`);
+  }
+
+  // 3. Returns a string
+  if (!/\breturn\b/.test(stripped)) {
+    errors.push("handler never returns — it MUST return a string");
+  } else if (/\breturn\s*(;|}|$)/m.test(stripped)) {
+    errors.push("handler has a bare `return` — every path must return a string");
+  }
+
+  // 4. args usage matches the declared schema
+  const used = argsReferenced(stripped, code);
+  for (const name of used) {
+    if (!declared.has(name)) errors.push(`reads args.${name} but "${name}" is not declared in parameters`);
+  }
+  for (const name of declared) {
+    if (!used.has(name)) warnings.push(`parameter "${name}" is declared but never read`);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
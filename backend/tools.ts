@@ -1,10 +1,37 @@
-import type { RegisteredTool, ToolHandler, VapiToolDefinition } from "./types.js";
-import { sendWhatsApp, notifyOperator, triggerN8nWorkflow } from "./integrations.js";
-import { createVapiTool, addToolToAssistant } from "./vapi.js";
+import type { RegisteredTool, StoredTool, ToolHandler, ToolVersion, VapiToolDefinition } from "./types.js";
+import { sendWhatsApp, sendWhatsAppLocation, notifyOperator, triggerN8nWorkflow } from "./integrations.js";
+import {
+  createVapiTool,
+  updateVapiTool,
+  addToolToAssistant,
+  removeToolFromAssistant,
+  listVapiTools,
+  deleteVapiTool,
+} from "./vapi.js";
+import { loadJson, saveJson } from "./storage.js";
+import { runInSandbox } from "./sandbox.js";
+import { validateToolSpec, ToolValidationError } from "./tool-validation.js";
+import { lineDiff, formatDiff } from "./diff.js";
+import { validateReference, describeReferenceProblem } from "./reference-validation.js";
+import { getShipmentProvider, type CustomsState, type Shipment } from "./shipments.js";
+import { subscribe } from "./shipment-events.js";
+import { DocumentError, describeDocument, documentContainers, readShippingDocument } from "./documents.js";
+import {
+  bookDelivery,
+  cancelDelivery,
+  describeDelivery,
+  findWarehouse,
+  getAvailability,
+  getDelivery,
+  rescheduleDelivery,
+  SchedulingError,
+  type DeliveryBooking,
+} from "./scheduling.js";
 
-// --- In-memory registry ---
+// --- Registry (in-memory, dynamic tools mirrored to disk) ---
 
 const registry = new Map<string, RegisteredTool>();
+const STORE = "tools";
 
 export function getTool(name: string): RegisteredTool | undefined {
   return registry.get(name);
@@ -18,20 +45,79 @@ export function getDynamicTools(): RegisteredTool[] {
   return Array.from(registry.values()).filter((t) => t.isDynamic);
 }
 
+export function getEnabledTools(): RegisteredTool[] {
+  return Array.from(registry.values()).filter((t) => !t.disabled);
+}
+
 export function registerTool(tool: RegisteredTool) {
   registry.set(tool.name, tool);
   console.log(
     `[tools] Registered "${tool.name}" (${tool.isDynamic ? "dynamic" : "seed"})`
   );
+  if (tool.isDynamic) persistTools();
 }
 
-export function clearDynamicTools() {
+// Removes dynamic tools locally and deletes them (plus any orphans we created
+// in earlier runs) from the Vapi account. Callers are expected to have reset
+// the assistant's toolIds already, so nothing is detached one by one here.
+export async function clearDynamicTools() {
+  const removed: RegisteredTool[] = [];
   for (const [name, tool] of registry) {
     if (tool.isDynamic) {
       registry.delete(name);
+      removed.push(tool);
       console.log(`[tools] Removed dynamic tool "${name}"`);
     }
   }
+  persistTools();
+
+  for (const tool of removed) {
+    if (tool.vapiToolId) await deleteFromVapi(tool.name, tool.vapiToolId, false);
+  }
+  await sweepOrphanedVapiTools();
+}
+
+export async function removeTool(name: string): Promise<RegisteredTool> {
+  const tool = registry.get(name);
+  if (!tool) throw new Error(`Tool "${name}" not found`);
+  if (!tool.isDynamic) throw new Error(`"${name}" is a seed tool and cannot be deleted`);
+
+  registry.delete(name);
+  persistTools();
+  console.log(`[tools] Removed dynamic tool "${name}"`);
+
+  if (tool.vapiToolId) await deleteFromVapi(name, tool.vapiToolId, true);
+  return tool;
+}
+
+// --- Persistence ---
+
+function persistTools() {
+  const stored: StoredTool[] = getDynamicTools()
+    .filter((t) => t.handlerCode !== undefined)
+    .map(({ handler: _handler, ...rest }) => ({ ...rest, handlerCode: rest.handlerCode! }));
+  saveJson(STORE, stored);
+}
+
+// Rebuild dynamic tools from disk so Vapi-attached tools survive restarts
+function restoreTools() {
+  const stored = loadJson<StoredTool[]>(STORE, []);
+  for (const spec of stored) {
+    try {
+      const versions = spec.versions?.length
+        ? spec.versions
+        : [{ version: 1, description: spec.description, parameters: spec.parameters, handlerCode: spec.handlerCode, createdAt: spec.createdAt }];
+      registry.set(spec.name, {
+        ...spec,
+        handler: buildHandler(spec.handlerCode),
+        version: spec.version || versions.length,
+        versions,
+      });
+      console.log(`[tools] Restored dynamic tool "${spec.name}" from disk`);
+    } catch (err) {
+      console.error(`[tools] Failed to restore "${spec.name}":`, err);
+    }
+  }
 }
 
 // --- Dynamic tool creation (the self-improving part) ---
@@ -42,71 +128,248 @@ export async function createAndRegisterTool(spec: {
   parameters: VapiToolDefinition["function"]["parameters"];
   handlerCode: string;
 }): Promise<RegisteredTool> {
-  // Build handler from code string — intentionally using new Function for hackathon demo
-  const handler = buildHandler(spec.handlerCode);
+  const validation = validateToolSpec(spec);
+  const existing = registry.get(spec.name);
+  if (existing && !existing.isDynamic) {
+    validation.errors.push(`"${spec.name}" is a seed tool and cannot be replaced`);
+  }
+  if (validation.errors.length) {
+    console.error(`[tools] Rejected "${spec.name}": ${validation.errors.join("; ")}`);
+    throw new ToolValidationError(spec.name, validation.errors);
+  }
 
-  const tool: RegisteredTool = {
-    name: spec.name,
+  const tool = await applyVersion(spec.name, {
     description: spec.description,
     parameters: spec.parameters,
-    handler,
+    handlerCode: spec.handlerCode,
+  });
+
+  await notifyOperator(
+    tool.version! > 1
+      ? `Tool updated: "${spec.name}" is now v${tool.version} — ${spec.description}`
+      : `New tool created: "${spec.name}" — ${spec.description}`
+  );
+
+  return tool;
+}
+
+// Appends a version to the tool's history, makes it current and syncs Vapi
+async function applyVersion(
+  name: string,
+  content: Omit<ToolVersion, "version" | "createdAt">
+): Promise<RegisteredTool> {
+  const existing = registry.get(name);
+  const versions = [...(existing?.versions || [])];
+  const version: ToolVersion = {
+    ...content,
+    version: versions.length + 1,
     createdAt: new Date().toISOString(),
+  };
+  versions.push(version);
+
+  const tool: RegisteredTool = {
+    name,
+    description: version.description,
+    parameters: version.parameters,
+    handler: buildHandler(version.handlerCode),
+    handlerCode: version.handlerCode,
+    createdAt: existing?.createdAt || version.createdAt,
     isDynamic: true,
+    disabled: existing?.disabled,
+    vapiToolId: existing?.vapiToolId,
+    version: version.version,
+    versions,
   };
 
   registerTool(tool);
+  await syncToVapi(tool);
+  return tool;
+}
 
-  // Register on Vapi so voice calls can use it too
+// Register on Vapi so voice calls can use it too — updates in place when the
+// tool already exists there instead of creating a duplicate
+async function syncToVapi(tool: RegisteredTool) {
   const assistantId = process.env.VAPI_ASSISTANT_ID;
   const serverUrl = process.env.SERVER_URL;
+  if (!assistantId || !serverUrl) return;
+
+  const vapiToolDef: VapiToolDefinition = {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  };
+
+  try {
+    if (tool.vapiToolId) {
+      await updateVapiTool(tool.vapiToolId, vapiToolDef, `${serverUrl}/vapi/tool-calls`);
+      console.log(`[tools] Tool "${tool.name}" v${tool.version} synced to Vapi (${tool.vapiToolId})`);
+      return;
+    }
+    await sweepOrphanedVapiTools(tool.name);
+    const toolId = await createVapiTool(vapiToolDef, `${serverUrl}/vapi/tool-calls`);
+    console.log(`[tools] Tool "${tool.name}" registered on Vapi → toolId: ${toolId}`);
+    tool.vapiToolId = toolId;
+    persistTools();
+    await addToolToAssistant(assistantId, toolId);
+    console.log(`[tools] Tool "${tool.name}" ATTACHED to assistant ${assistantId} — assistant updated`);
+  } catch (err) {
+    console.error(`[tools] Failed to sync "${tool.name}" to Vapi:`, err);
+  }
+}
+
+// --- Enable / disable ---
+// Disabled tools stay registered (and on Vapi) but are detached from the
+// assistant and refused by the webhook. Seed tool state is not persisted.
 
-  if (assistantId && serverUrl) {
+export async function setToolEnabled(name: string, enabled: boolean): Promise<RegisteredTool> {
+  const tool = registry.get(name);
+  if (!tool) throw new Error(`Tool "${name}" not found`);
+  if (!tool.disabled === enabled) return tool;
+
+  tool.disabled = enabled ? undefined : true;
+  if (tool.isDynamic) persistTools();
+  console.log(`[tools] ${enabled ? "Enabled" : "Disabled"} "${name}"`);
+
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  if (assistantId && tool.vapiToolId) {
     try {
-      const vapiToolDef: VapiToolDefinition = {
-        type: "function",
-        function: {
-          name: spec.name,
-          description: spec.description,
-          parameters: spec.parameters,
-        },
-      };
-      const toolId = await createVapiTool(vapiToolDef, `${serverUrl}/vapi/tool-calls`);
-      console.log(`[tools] Tool "${spec.name}" registered on Vapi → toolId: ${toolId}`);
-      await addToolToAssistant(assistantId, toolId);
-      console.log(`[tools] Tool "${spec.name}" ATTACHED to assistant ${assistantId} — assistant updated`);
+      if (enabled) await addToolToAssistant(assistantId, tool.vapiToolId);
+      else await removeToolFromAssistant(assistantId, tool.vapiToolId);
     } catch (err) {
-      console.error(`[tools] Failed to sync "${spec.name}" to Vapi:`, err);
+      console.error(`[tools] Failed to ${enabled ? "attach" : "detach"} "${name}" on Vapi:`, err);
     }
   }
+  return tool;
+}
 
-  await notifyOperator(
-    `New tool created: "${spec.name}" — ${spec.description}`
-  );
+// --- Vapi cleanup ---
 
-  return tool;
+async function deleteFromVapi(name: string, toolId: string, detach: boolean) {
+  const assistantId = process.env.VAPI_ASSISTANT_ID;
+  try {
+    if (detach && assistantId) await removeToolFromAssistant(assistantId, toolId);
+    await deleteVapiTool(toolId);
+    console.log(`[tools] Tool "${name}" deleted from Vapi (${toolId})`);
+  } catch (err) {
+    console.error(`[tools] Failed to delete "${name}" (${toolId}) from Vapi:`, err);
+  }
 }
 
-function buildHandler(code: string): ToolHandler {
-  // The handler code has access to these utilities via closure
-  const context = { sendWhatsApp, notifyOperator, triggerN8nWorkflow, fetch };
+// Vapi tools pointing at our webhook that the registry no longer tracks —
+// left behind by restarts or older deploys. Optionally scoped to one name.
+async function sweepOrphanedVapiTools(onlyName?: string) {
+  const serverUrl = process.env.SERVER_URL;
+  if (!serverUrl || !process.env.VAPI_API_KEY) return;
+
+  const tracked = new Set(getDynamicTools().map((t) => t.vapiToolId).filter(Boolean));
+  try {
+    const remote = await listVapiTools();
+    const orphans = remote.filter(
+      (t) =>
+        t.server?.url === `${serverUrl}/vapi/tool-calls` &&
+        !tracked.has(t.id) &&
+        (!onlyName || t.function?.name === onlyName)
+    );
+    for (const orphan of orphans) {
+      await deleteFromVapi(orphan.function?.name || "unknown", orphan.id, true);
+    }
+  } catch (err) {
+    console.error(`[tools] Failed to sweep orphaned Vapi tools:`, err);
+  }
+}
 
-  // Wrap in async function that receives (args, ctx)
-  const fn = new Function(
-    "args",
-    "ctx",
-    `return (async () => { ${code} })()`
-  ) as (args: Record<string, unknown>, ctx: typeof context) => Promise<string>;
+// --- Versioning ---
 
-  return (args) => fn(args, context);
+export function getToolVersions(name: string): ToolVersion[] | undefined {
+  return registry.get(name)?.versions;
+}
+
+export function diffToolVersions(name: string, from: number, to: number) {
+  const versions = registry.get(name)?.versions || [];
+  const a = versions.find((v) => v.version === from);
+  const b = versions.find((v) => v.version === to);
+  if (!a || !b) return undefined;
+
+  const propsA = a.parameters.properties;
+  const propsB = b.parameters.properties;
+  return {
+    name,
+    from,
+    to,
+    description: a.description === b.description ? null : { from: a.description, to: b.description },
+    parameters: {
+      added: Object.keys(propsB).filter((k) => !(k in propsA)),
+      removed: Object.keys(propsA).filter((k) => !(k in propsB)),
+      changed: Object.keys(propsA).filter(
+        (k) => k in propsB && JSON.stringify(propsA[k]) !== JSON.stringify(propsB[k])
+      ),
+      required: JSON.stringify(a.parameters.required || []) === JSON.stringify(b.parameters.required || [])
+        ? null
+        : { from: a.parameters.required || [], to: b.parameters.required || [] },
+    },
+    handlerCode: formatDiff(lineDiff(a.handlerCode, b.handlerCode)),
+  };
+}
+
+// Rolling back appends a copy of the old version so history stays linear
+export async function rollbackTool(name: string, version: number): Promise<RegisteredTool> {
+  const existing = registry.get(name);
+  if (!existing?.isDynamic) throw new Error(`Dynamic tool "${name}" not found`);
+  const target = existing.versions?.find((v) => v.version === version);
+  if (!target) throw new Error(`Tool "${name}" has no version ${version}`);
+
+  const tool = await applyVersion(name, {
+    description: target.description,
+    parameters: target.parameters,
+    handlerCode: target.handlerCode,
+    note: `rollback to v${version}`,
+  });
+  await notifyOperator(`↩️ Tool "${name}" rolled back to v${version} (now v${tool.version})`);
+  return tool;
+}
+
+function buildHandler(code: string): ToolHandler {
+  // Generated code runs in an isolated worker — see sandbox.ts for the ctx it gets
+  return (args) => runInSandbox(code, args);
 }
 
 // --- Seed tools (available at boot) ---
 
+const CUSTOMS_LABELS: Record<CustomsState, string> = {
+  not_started: "Customs not started",
+  pending: "Pending customs",
+  inspection: "Under customs inspection",
+  hold: "On customs hold",
+  cleared: "Cleared customs",
+};
+
+function formatShipment(s: Shipment): string {
+  const label = s.kind === "booking" ? "Booking" : "Container";
+  const size =
+    s.kind === "booking" && s.containers?.length
+      ? `${s.containers.length}x ${s.size ? `${s.size} ` : ""}containers: ${s.containers.join(", ")}`
+      : s.size;
+  const status = s.status.replace(/_/g, " ");
+  const eta =
+    s.eta &&
+    new Date(s.eta).toLocaleString("en-GB", { timeZone: "Asia/Dubai", dateStyle: "medium", timeStyle: "short" });
+  const sentences = [
+    `${status[0].toUpperCase()}${status.slice(1)}${s.location ? ` at ${s.location}` : ""}`,
+    s.customs && CUSTOMS_LABELS[s.customs],
+    s.destination ? `Heading to ${s.destination}${eta ? `, ETA ${eta}` : ""}` : eta && `ETA ${eta}`,
+    s.notes?.replace(/\.$/, ""),
+  ].filter(Boolean);
+  return `${label} ${s.reference}${size ? ` (${size})` : ""}: ${sentences.join(". ")}.`;
+}
+
 function seedTools() {
   registerTool({
     name: "check_shipment_status",
     description:
-      "Check the current status of a shipment by container or booking ID",
+      "Check the current status of a shipment by container or booking ID. Without an ID, checks the containers on the last BL or delivery order the customer sent.",
     parameters: {
       type: "object",
       properties: {
@@ -115,23 +378,31 @@ function seedTools() {
           description: "Container number or booking reference",
         },
       },
-      required: ["shipment_id"],
+      required: [],
     },
-    handler: async (args) => {
-      const id = args.shipment_id as string;
-      // Simulated data — in prod this would hit a TMS/ERP API
-      const statuses: Record<string, string> = {
-        CONU1234567:
-          "Container CONU1234567: Cleared customs at Jebel Ali. In transit to Al Quoz warehouse. ETA 2 hours.",
-        MSCU7654321:
-          "Container MSCU7654321: Arrived at Jebel Ali port. Pending customs inspection. ETA clearance: 4 hours.",
-        BK20240001:
-          "Booking BK20240001: 2x 40ft containers. Vessel arrived. Discharge scheduled for tomorrow 0600.",
-      };
-      return (
-        statuses[id] ||
-        `Shipment ${id}: No record found. Please verify the ID or contact operations.`
-      );
+    handler: async (args, context) => {
+      const provider = getShipmentProvider();
+      if (!args.shipment_id) {
+        const containers = context?.customerPhone ? documentContainers(context.customerPhone) : [];
+        if (!containers.length) return "Which container or booking should I check? No shipping document on file for this customer.";
+        const lines = await Promise.all(
+          containers.slice(0, 5).map(async (ref) => {
+            const shipment = await provider.get(ref);
+            return shipment ? formatShipment(shipment) : `Shipment ${ref}: No record found.`;
+          })
+        );
+        return `From the customer's document:\n${lines.join("\n")}${containers.length > 5 ? `\n…and ${containers.length - 5} more containers.` : ""}`;
+      }
+      const check = validateReference(String(args.shipment_id || ""));
+      if (!check.valid) {
+        // Re-check against real references so suggestions favour shipments we actually have
+        const known = (await provider.list()).map((s) => s.reference);
+        return describeReferenceProblem(validateReference(check.input, known));
+      }
+      const shipment = await provider.get(check.normalized);
+      return shipment
+        ? formatShipment(shipment)
+        : `Shipment ${check.normalized}: No record found. Please verify the ID or contact operations.`;
     },
     createdAt: new Date().toISOString(),
     isDynamic: false,
@@ -212,7 +483,245 @@ function seedTools() {
     createdAt: new Date().toISOString(),
     isDynamic: false,
   });
+
+  registerTool({
+    name: "subscribe_to_shipment_updates",
+    description:
+      "Send the customer proactive WhatsApp updates (and a call for customs holds) whenever a container or booking changes status",
+    parameters: {
+      type: "object",
+      properties: {
+        shipment_id: { type: "string", description: "Container number or booking reference" },
+        phone: { type: "string", description: "Customer phone number with country code" },
+      },
+      required: ["shipment_id", "phone"],
+    },
+    handler: async (args) => {
+      const check = validateReference(String(args.shipment_id || ""));
+      if (!check.valid) return describeReferenceProblem(check);
+      const sub = subscribe(check.normalized, String(args.phone || ""));
+      return `Subscribed ${args.phone} to updates for ${sub.reference}. They'll get a WhatsApp on every status change.`;
+    },
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+
+  registerTool({
+    name: "check_delivery_availability",
+    description:
+      "List free delivery slots at a warehouse on a given day (Al Quoz, JAFZA, DIP, Ras Al Khor, Al Qusais, DAFZA)",
+    parameters: {
+      type: "object",
+      properties: {
+        warehouse: { type: "string", description: "Warehouse name or area, e.g. Al Quoz or JAFZA" },
+        date: { type: "string", description: "YYYY-MM-DD, today or tomorrow" },
+        container_number: { type: "string", description: "Optional container, to match the truck size" },
+      },
+      required: ["warehouse", "date"],
+    },
+    handler: (args) =>
+      schedulingTool(async () => {
+        const shipment = args.container_number
+          ? await getShipmentProvider().get(String(args.container_number)).catch(() => undefined)
+          : undefined;
+        const { warehouse, date, slots } = getAvailability(String(args.warehouse), String(args.date), shipment?.size);
+        const open = slots.filter((s) => s.remaining > 0 && s.trucksFree > 0);
+        if (!open.length) return `${warehouse.name} has no free delivery slots on ${date}. Try another day.`;
+        return `${warehouse.name} on ${date} — free slots: ${open
+          .map((s) => `${s.slot} (${s.remaining} dock${s.remaining === 1 ? "" : "s"} left)`)
+          .join(", ")}.`;
+      }),
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+
+  registerTool({
+    name: "book_delivery_slot",
+    description:
+      "Book a delivery slot to take a container from Jebel Ali to a warehouse, assign a truck and send the customer a WhatsApp confirmation",
+    parameters: {
+      type: "object",
+      properties: {
+        container_number: {
+          type: "string",
+          description: "Container number (or booking reference) to deliver; omit to use the one on the customer's last BL/delivery order",
+        },
+        warehouse: { type: "string", description: "Destination warehouse, e.g. Al Quoz or JAFZA" },
+        date: { type: "string", description: "YYYY-MM-DD, today or tomorrow" },
+        slot: { type: "string", description: "Slot start time, e.g. 09:00" },
+      },
+      required: ["warehouse", "date", "slot"],
+    },
+    handler: (args, context) =>
+      schedulingTool(async () => {
+        const phone = context?.customerPhone;
+        let reference = args.container_number ? String(args.container_number) : "";
+        if (!reference) {
+          const containers = phone ? documentContainers(phone) : [];
+          if (containers.length !== 1) {
+            return containers.length
+              ? `The customer's document lists ${containers.join(", ")} — which container should be delivered?`
+              : "Which container should be delivered? No shipping document on file for this customer.";
+          }
+          reference = containers[0];
+        }
+        const delivery = await bookDelivery({
+          reference,
+          warehouse: String(args.warehouse),
+          date: String(args.date),
+          slot: String(args.slot),
+          phone,
+        });
+        const confirmed = await confirmDelivery(delivery, `✅ Delivery booked\n${describeDelivery(delivery)}`);
+        return `${describeDelivery(delivery)}${confirmed ? " WhatsApp confirmation sent." : ""}`;
+      }),
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+
+  registerTool({
+    name: "reschedule_delivery",
+    description: "Move an existing delivery (DLV-XXXXXX) to another date, slot or warehouse and notify the customer",
+    parameters: {
+      type: "object",
+      properties: {
+        delivery_id: { type: "string", description: "Delivery ID, e.g. DLV-3FA9C1" },
+        date: { type: "string", description: "New date (YYYY-MM-DD, today or tomorrow)" },
+        slot: { type: "string", description: "New slot start time, e.g. 13:00" },
+        warehouse: { type: "string", description: "New warehouse, if it changes" },
+      },
+      required: ["delivery_id"],
+    },
+    handler: (args, context) =>
+      schedulingTool(async () => {
+        const delivery = rescheduleDelivery(customerDelivery(String(args.delivery_id), context?.customerPhone).id, {
+          date: args.date ? String(args.date) : undefined,
+          slot: args.slot ? String(args.slot) : undefined,
+          warehouse: args.warehouse ? String(args.warehouse) : undefined,
+        });
+        const confirmed = await confirmDelivery(delivery, `🔁 Delivery rescheduled\n${describeDelivery(delivery)}`);
+        return `Rescheduled. ${describeDelivery(delivery)}${confirmed ? " WhatsApp confirmation sent." : ""}`;
+      }),
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+
+  registerTool({
+    name: "cancel_delivery",
+    description: "Cancel a delivery (DLV-XXXXXX), free its slot and truck, and notify the customer",
+    parameters: {
+      type: "object",
+      properties: {
+        delivery_id: { type: "string", description: "Delivery ID, e.g. DLV-3FA9C1" },
+        reason: { type: "string", description: "Why it was cancelled" },
+      },
+      required: ["delivery_id"],
+    },
+    handler: (args, context) =>
+      schedulingTool(async () => {
+        const owned = customerDelivery(String(args.delivery_id), context?.customerPhone);
+        const delivery = cancelDelivery(owned.id, args.reason ? String(args.reason) : undefined);
+        const confirmed = await confirmDelivery(
+          delivery,
+          `❌ Delivery ${delivery.id} for ${delivery.reference} on ${delivery.date} at ${delivery.slot} has been cancelled.`
+        );
+        return `Delivery ${delivery.id} for ${delivery.reference} is cancelled.${confirmed ? " Customer notified on WhatsApp." : ""}`;
+      }),
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+
+  registerTool({
+    name: "read_shipping_document",
+    description:
+      "Read a bill of lading or delivery order the customer sent on WhatsApp (photo or PDF): extracts container numbers, BL number, consignee, vessel/voyage, port of loading and cargo, and keeps it on file for the customer",
+    parameters: {
+      type: "object",
+      properties: {
+        media_id: { type: "string", description: "mediaId of the image or document attachment" },
+        mime_type: { type: "string", description: "mimeType of the attachment, if known" },
+        file_name: { type: "string", description: "fileName of the attachment, if known" },
+      },
+      required: ["media_id"],
+    },
+    handler: async (args, context) => {
+      try {
+        const doc = await readShippingDocument({
+          mediaId: String(args.media_id),
+          mimeType: args.mime_type ? String(args.mime_type) : undefined,
+          fileName: args.file_name ? String(args.file_name) : undefined,
+          phone: context?.customerPhone,
+        });
+        return describeDocument(doc);
+      } catch (err) {
+        if (err instanceof DocumentError) return err.message;
+        throw err;
+      }
+    },
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+
+  registerTool({
+    name: "send_warehouse_location",
+    description: "Send the customer a WhatsApp location pin for one of our warehouses",
+    parameters: {
+      type: "object",
+      properties: {
+        warehouse: { type: "string", description: "Warehouse name or area, e.g. Al Quoz or JAFZA" },
+        phone: { type: "string", description: "Customer WhatsApp number" },
+      },
+      required: ["warehouse", "phone"],
+    },
+    handler: async (args) => {
+      const warehouse = findWarehouse(String(args.warehouse));
+      if (!warehouse) return `Unknown warehouse "${args.warehouse}".`;
+      const result = await sendWhatsAppLocation(String(args.phone), {
+        latitude: warehouse.latitude,
+        longitude: warehouse.longitude,
+        name: `Ruya Logistics — ${warehouse.name}`,
+        address: `${warehouse.area}, Dubai`,
+      });
+      return result.sent
+        ? `Location pin for the ${warehouse.name} (${warehouse.area}) sent on WhatsApp.`
+        : `Couldn't send the location pin. The ${warehouse.name} is in ${warehouse.area}.`;
+    },
+    createdAt: new Date().toISOString(),
+    isDynamic: false,
+  });
+}
+
+// Scheduling rule violations are answers for the caller, not failures
+async function schedulingTool(run: () => Promise<string>): Promise<string> {
+  try {
+    return await run();
+  } catch (err) {
+    if (err instanceof SchedulingError) return err.message;
+    throw err;
+  }
+}
+
+// Customers can only touch their own deliveries; someone else's ID reads as
+// unknown so guessing IDs reveals nothing
+function customerDelivery(id: string, customerPhone: string | undefined): DeliveryBooking {
+  const digits = (phone: string | undefined) => (phone || "").replace(/\D/g, "");
+  const delivery = getDelivery(id);
+  if (!delivery || !digits(customerPhone) || digits(delivery.phone) !== digits(customerPhone)) {
+    throw new SchedulingError("not_found", `No delivery ${id} for this customer.`);
+  }
+  return delivery;
+}
+
+async function confirmDelivery(delivery: DeliveryBooking, text: string): Promise<boolean> {
+  if (!delivery.phone) return false;
+  const body = delivery.status === "booked" ? `${text}\nReply here to change or cancel.` : text;
+  const result = await sendWhatsApp(delivery.phone, body).catch((err) => {
+    console.error(`[scheduling] WhatsApp confirmation for ${delivery.id} failed:`, err);
+    return { sent: false };
+  });
+  return result.sent;
 }
 
-// Initialize seed tools on import
+// Initialize seed tools on import, then layer persisted dynamic tools on top
 seedTools();
+restoreTools();
@@ -50,41 +50,131 @@ export interface VapiToolDefinition {
 
 // --- Tool Registry ---
 
-export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
+// Who the tool is acting for, taken from the channel (Vapi caller, WhatsApp chat)
+// — never from model-supplied arguments
+export interface ToolContext {
+  customerPhone?: string;
+}
+
+export type ToolHandler = (args: Record<string, unknown>, context?: ToolContext) => Promise<string>;
+
+export interface ToolVersion {
+  version: number;
+  description: string;
+  parameters: VapiToolDefinition["function"]["parameters"];
+  handlerCode: string;
+  createdAt: string;
+  note?: string;
+}
 
 export interface RegisteredTool {
   name: string;
   description: string;
   parameters: VapiToolDefinition["function"]["parameters"];
   handler: ToolHandler;
+  handlerCode?: string;
   createdAt: string;
   isDynamic: boolean;
+  disabled?: boolean;
+  vapiToolId?: string;
+  version?: number;
+  versions?: ToolVersion[];
 }
 
+// What gets written to disk — everything except the compiled handler
+export type StoredTool = Omit<RegisteredTool, "handler"> & { handlerCode: string };
+
 // --- Brain ---
 
+export interface BrainToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  output: string;
+  isError: boolean;
+}
+
+// One entry per model call or tool execution inside a single decide()
+export interface BrainTraceStep {
+  step: number;
+  kind: "model" | "tool" | "guard";
+  name?: string;
+  args?: Record<string, unknown>;
+  output?: string;
+  isError?: boolean;
+  stopReason?: string | null;
+  durationMs: number;
+}
+
+export interface BrainTrace {
+  steps: BrainTraceStep[];
+  stoppedBy: "reply" | "step_limit" | "loop_detected";
+  maxSteps: number;
+  totalMs: number;
+}
+
+// action reflects the last tool the model used, or "respond" if it used none
 export interface BrainDecision {
   action: "execute_tool" | "create_tool" | "respond" | "escalate" | "update_prompt";
-  toolName?: string;
-  toolArgs?: Record<string, unknown>;
+  toolCalls: BrainToolCall[];
   response?: string;
-  newTool?: {
-    name: string;
-    description: string;
-    parameters: VapiToolDefinition["function"]["parameters"];
-    handlerCode: string;
-  };
-  escalationReason?: string;
-  newPrompt?: string;
 }
 
 // --- WhatsApp ---
 
+// Media payloads carry a Whapi media id; link is only set when auto-download is on
+export interface WhapiMedia {
+  id: string;
+  link?: string;
+  mime_type?: string;
+  file_size?: number;
+  file_name?: string;
+  caption?: string;
+  seconds?: number; // voice / audio duration
+}
+
+export interface WhapiLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+// A tap on one of our interactive buttons or list rows
+export interface WhapiReply {
+  type: "buttons_reply" | "list_reply";
+  buttons_reply?: { id: string; title: string };
+  list_reply?: { id: string; title: string; description?: string };
+}
+
+export interface WhapiMessage {
+  id: string;
+  from: string;
+  from_me?: boolean;
+  from_name?: string;
+  type?: string; // text | image | document | voice | audio | location | live_location | reply | ...
+  timestamp?: number; // unix seconds
+  text?: { body: string };
+  image?: WhapiMedia;
+  document?: WhapiMedia;
+  voice?: WhapiMedia;
+  audio?: WhapiMedia;
+  location?: WhapiLocation;
+  live_location?: WhapiLocation;
+  reply?: WhapiReply;
+  chat_id: string;
+}
+
+// Incoming WhatsApp content normalized for the brain — one entry per thing the
+// customer sent (a captioned photo is an image input with a caption)
+export type WhatsAppInput =
+  | { kind: "text"; text: string }
+  | { kind: "image"; mediaId: string; mimeType?: string; url?: string; caption?: string }
+  | { kind: "document"; mediaId: string; mimeType?: string; url?: string; fileName?: string; caption?: string }
+  | { kind: "voice"; mediaId: string; mimeType?: string; url?: string; seconds?: number }
+  | { kind: "location"; latitude: number; longitude: number; name?: string; address?: string }
+  | { kind: "reply"; id: string; title: string };
+
 export interface WhapiIncomingMessage {
-  messages?: {
-    id: string;
-    from: string;
-    text?: { body: string };
-    chat_id: string;
-  }[];
+  messages?: WhapiMessage[];
 }
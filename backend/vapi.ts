@@ -5,7 +5,7 @@ const BASE = "https://api.vapi.ai";
 
 async function vapiRequest(
   path: string,
-  method: "GET" | "POST" | "PATCH" = "POST",
+  method: "GET" | "POST" | "PATCH" | "DELETE" = "POST",
   body?: unknown
 ) {
   const res = await fetch(`${BASE}${path}`, {
@@ -43,6 +43,24 @@ export interface AssistantConfig {
   [key: string]: unknown;
 }
 
+// Inverse of updateAssistant: pulls the tunable fields out of a raw assistant
+// object. toolIds are left out on purpose — tools are detached individually.
+export function configFromAssistant(raw: Record<string, unknown>): AssistantConfig {
+  const model = (raw.model || {}) as { messages?: Array<{ role: string; content: string }>; maxTokens?: number };
+  const voice = raw.voice as { speed?: number } | undefined;
+  const config: AssistantConfig = {};
+
+  const sysMsg = model.messages?.find((m) => m.role === "system");
+  if (sysMsg) config.systemMessage = sysMsg.content;
+  if (model.maxTokens !== undefined) config.maxTokens = model.maxTokens;
+  if (voice?.speed !== undefined) config.voiceSpeed = voice.speed;
+  if (typeof raw.firstMessage === "string") config.firstMessage = raw.firstMessage;
+  if (typeof raw.silenceTimeoutSeconds === "number") config.silenceTimeoutSeconds = raw.silenceTimeoutSeconds;
+  if (typeof raw.maxDurationSeconds === "number") config.maxDurationSeconds = raw.maxDurationSeconds;
+  if (raw.messagePlan) config.messagePlan = raw.messagePlan as AssistantConfig["messagePlan"];
+  return config;
+}
+
 export async function getAssistant(
   assistantId: string
 ): Promise<{ systemMessage: string; config: Record<string, unknown> }> {
@@ -135,6 +153,7 @@ export async function createAssistant(
       model: "eleven_turbo_v2_5",
     },
     serverUrl,
+    ...(process.env.VAPI_SERVER_SECRET ? { serverUrlSecret: process.env.VAPI_SERVER_SECRET } : {}),
     firstMessage:
       "Hello, this is Ruya Logistics. How can I help you with your shipment today?",
   };
@@ -151,7 +170,8 @@ export async function createAssistant(
 export async function createOutboundCall(
   assistantId: string,
   customerNumber: string,
-  phoneNumberId?: string
+  phoneNumberId?: string,
+  assistantOverrides?: { firstMessage?: string; variableValues?: Record<string, string> }
 ): Promise<string> {
   const payload: Record<string, unknown> = {
     assistantId,
@@ -160,6 +180,9 @@ export async function createOutboundCall(
   if (phoneNumberId) {
     payload.phoneNumberId = phoneNumberId;
   }
+  if (assistantOverrides) {
+    payload.assistantOverrides = assistantOverrides;
+  }
 
   const result = (await vapiRequest("/call/phone", "POST", payload)) as {
     id: string;
@@ -204,6 +227,12 @@ export async function listRecentCalls(
 
 // --- Tool management ---
 
+// Vapi echoes the secret back as x-vapi-secret so our webhook auth can verify it
+function toolServer(url: string): { url: string; secret?: string } {
+  const secret = process.env.VAPI_SERVER_SECRET;
+  return secret ? { url, secret } : { url };
+}
+
 export async function createVapiTool(
   tool: VapiToolDefinition,
   serverUrl: string
@@ -211,7 +240,7 @@ export async function createVapiTool(
   const payload = {
     type: "function",
     function: tool.function,
-    server: { url: serverUrl },
+    server: toolServer(serverUrl),
   };
 
   const result = (await vapiRequest("/tool", "POST", payload)) as {
@@ -221,6 +250,18 @@ export async function createVapiTool(
   return result.id;
 }
 
+export async function updateVapiTool(
+  toolId: string,
+  tool: VapiToolDefinition,
+  serverUrl: string
+): Promise<void> {
+  await vapiRequest(`/tool/${toolId}`, "PATCH", {
+    function: tool.function,
+    server: toolServer(serverUrl),
+  });
+  console.log(`[vapi] Updated tool "${tool.function.name}" (${toolId})`);
+}
+
 export async function addToolToAssistant(
   assistantId: string,
   toolId: string
@@ -232,6 +273,7 @@ export async function addToolToAssistant(
 
   const currentModel = assistant.model || {};
   const existingIds = currentModel.toolIds || [];
+  if (existingIds.includes(toolId)) return;
 
   // Spread entire model to preserve provider, messages, etc.
   await vapiRequest(`/assistant/${assistantId}`, "PATCH", {
@@ -240,3 +282,39 @@ export async function addToolToAssistant(
 
   console.log(`[vapi] Added tool ${toolId} to assistant ${assistantId} (now ${existingIds.length + 1} tools)`);
 }
+
+export async function removeToolFromAssistant(
+  assistantId: string,
+  toolId: string
+): Promise<void> {
+  const assistant = (await vapiRequest(
+    `/assistant/${assistantId}`,
+    "GET"
+  )) as { model?: Record<string, unknown> & { toolIds?: string[] } };
+
+  const currentModel = assistant.model || {};
+  const existingIds = currentModel.toolIds || [];
+  if (!existingIds.includes(toolId)) return;
+
+  await vapiRequest(`/assistant/${assistantId}`, "PATCH", {
+    model: { ...currentModel, toolIds: existingIds.filter((id) => id !== toolId) },
+  });
+
+  console.log(`[vapi] Detached tool ${toolId} from assistant ${assistantId} (now ${existingIds.length - 1} tools)`);
+}
+
+export interface VapiToolRecord {
+  id: string;
+  type: string;
+  function?: VapiToolDefinition["function"];
+  server?: { url: string };
+}
+
+export async function listVapiTools(): Promise<VapiToolRecord[]> {
+  return vapiRequest("/tool", "GET") as Promise<VapiToolRecord[]>;
+}
+
+export async function deleteVapiTool(toolId: string): Promise<void> {
+  await vapiRequest(`/tool/${toolId}`, "DELETE");
+  console.log(`[vapi] Deleted tool ${toolId}`);
+}
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { signPayload, verifyWebhook } from "./webhook-auth.js";
+
+const KEY = "test-shipment-key";
+
+// Runs the middleware once and reports whether it let the request through
+function run(headers: Record<string, string>, body = '{"reference":"CONU1234562"}') {
+  const req = { headers, query: {}, rawBody: Buffer.from(body), method: "POST", path: "/shipments/events", ip: "127.0.0.1" };
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  };
+  let passed = false;
+  verifyWebhook("shipments")(req as unknown as Request, res as unknown as Response, () => {
+    passed = true;
+  });
+  return { passed, status: res.statusCode, body: res.body as { reason?: string } | undefined };
+}
+
+function signed(body: string, timestamp = String(Math.floor(Date.now() / 1000)), nonce?: string) {
+  return {
+    "x-signature": signPayload(KEY, timestamp, body),
+    "x-timestamp": timestamp,
+    ...(nonce ? { "x-webhook-nonce": nonce } : {}),
+  };
+}
+
+test("refuses every request when no credential is configured", () => {
+  delete process.env.SHIPMENT_WEBHOOK_SECRET;
+  delete process.env.SHIPMENT_WEBHOOK_AUTH;
+  const result = run({});
+  assert.equal(result.passed, false);
+  assert.equal(result.status, 503);
+
+  process.env.SHIPMENT_WEBHOOK_AUTH = "off";
+  assert.equal(run({}).passed, true);
+  delete process.env.SHIPMENT_WEBHOOK_AUTH;
+});
+
+test("accepts a valid HMAC signature and rejects a tampered one", () => {
+  process.env.SHIPMENT_WEBHOOK_SECRET = KEY;
+  const body = '{"reference":"CONU1234562","status":"released"}';
+  assert.equal(run(signed(body), body).passed, true);
+
+  const tampered = run(signed(body), '{"reference":"CONU1234562","status":"hold"}');
+  assert.equal(tampered.passed, false);
+  assert.equal(tampered.body?.reason, "bad_signature");
+
+  assert.equal(run({}, body).body?.reason, "missing_signature");
+});
+
+test("rejects timestamps outside the tolerance window", () => {
+  process.env.SHIPMENT_WEBHOOK_SECRET = KEY;
+  const body = '{"reference":"CONU1234562","status":"arrived"}';
+  const old = String(Math.floor(Date.now() / 1000) - 3600);
+  const result = run(signed(body, old), body);
+  assert.equal(result.passed, false);
+  assert.equal(result.body?.reason, "stale_timestamp");
+});
+
+test("rejects a replayed signature or nonce", () => {
+  process.env.SHIPMENT_WEBHOOK_SECRET = KEY;
+  const body = '{"reference":"CONU1234562","status":"delivered"}';
+  const headers = signed(body);
+  assert.equal(run(headers, body).passed, true);
+  assert.equal(run(headers, body).body?.reason, "replayed_nonce");
+
+  // A different body with a reused nonce is still a replay
+  const other = '{"reference":"CONU1234562","status":"gated out"}';
+  assert.equal(run(signed(other, undefined, "nonce-1"), other).passed, true);
+  const again = '{"reference":"CONU1234562","status":"in transit"}';
+  assert.equal(run(signed(again, undefined, "nonce-1"), again).body?.reason, "replayed_nonce");
+});
@@ -0,0 +1,234 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+
+// --- Inbound webhook verification ---
+// Each webhook route gets its own config: a shared secret header, an HMAC
+// signature over timestamp + raw body, and/or a token. Signed requests also get
+// replay protection (timestamp window + nonce cache). Rejections are logged and
+// counted per route.
+
+export type WebhookRoute = "vapi" | "whapi" | "shipments";
+export type WebhookAuthMode = "enforce" | "report" | "off";
+
+export type RejectReason =
+  | "not_configured"
+  | "missing_secret"
+  | "bad_secret"
+  | "missing_signature"
+  | "bad_signature"
+  | "missing_token"
+  | "bad_token"
+  | "stale_timestamp"
+  | "replayed_nonce";
+
+export interface WebhookRouteConfig {
+  route: WebhookRoute;
+  mode: WebhookAuthMode;
+  secret?: { header: string; value: string };
+  hmac?: { header: string; timestampHeader: string; nonceHeader: string; key: string };
+  token?: { header: string; query: string; value: string };
+}
+
+export interface WebhookAuthStats {
+  accepted: number;
+  rejected: number;
+  reasons: Partial<Record<RejectReason, number>>;
+  lastRejectedAt?: string;
+  lastReason?: RejectReason;
+}
+
+// Express request with the raw body captured by express.json({ verify })
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+function toleranceSeconds(): number {
+  return Number(process.env.WEBHOOK_TOLERANCE_SECONDS) || 300;
+}
+
+// Fail closed: a route without credentials rejects everything until it is
+// configured, or until the operator opts out with e.g. VAPI_WEBHOOK_AUTH=off
+function modeFor(envVar: string): WebhookAuthMode {
+  const configured = process.env[envVar] as WebhookAuthMode | undefined;
+  if (configured === "enforce" || configured === "report" || configured === "off") return configured;
+  return "enforce";
+}
+
+export function routeConfig(route: WebhookRoute): WebhookRouteConfig {
+  const env = process.env;
+  switch (route) {
+    case "vapi": {
+      const config: WebhookRouteConfig = { route, mode: "off" };
+      if (env.VAPI_SERVER_SECRET) config.secret = { header: "x-vapi-secret", value: env.VAPI_SERVER_SECRET };
+      if (env.VAPI_WEBHOOK_HMAC_SECRET) {
+        config.hmac = {
+          header: env.VAPI_SIGNATURE_HEADER || "x-vapi-signature",
+          timestampHeader: env.VAPI_TIMESTAMP_HEADER || "x-vapi-timestamp",
+          nonceHeader: "x-webhook-nonce",
+          key: env.VAPI_WEBHOOK_HMAC_SECRET,
+        };
+      }
+      config.mode = modeFor("VAPI_WEBHOOK_AUTH");
+      return config;
+    }
+    case "whapi": {
+      const config: WebhookRouteConfig = { route, mode: "off" };
+      if (env.WHAPI_WEBHOOK_TOKEN) {
+        config.token = { header: "x-whapi-token", query: "token", value: env.WHAPI_WEBHOOK_TOKEN };
+      }
+      config.mode = modeFor("WHAPI_WEBHOOK_AUTH");
+      return config;
+    }
+    case "shipments": {
+      const config: WebhookRouteConfig = { route, mode: "off" };
+      if (env.SHIPMENT_WEBHOOK_SECRET) {
+        config.hmac = {
+          header: "x-signature",
+          timestampHeader: "x-timestamp",
+          nonceHeader: "x-webhook-nonce",
+          key: env.SHIPMENT_WEBHOOK_SECRET,
+        };
+      }
+      config.mode = modeFor("SHIPMENT_WEBHOOK_AUTH");
+      return config;
+    }
+  }
+}
+
+// --- Rejection counters ---
+
+const stats = new Map<WebhookRoute, WebhookAuthStats>();
+
+function statsFor(route: WebhookRoute): WebhookAuthStats {
+  let entry = stats.get(route);
+  if (!entry) {
+    entry = { accepted: 0, rejected: 0, reasons: {} };
+    stats.set(route, entry);
+  }
+  return entry;
+}
+
+export function getWebhookAuthStats(): Record<string, WebhookAuthStats & { mode: WebhookAuthMode }> {
+  const out: Record<string, WebhookAuthStats & { mode: WebhookAuthMode }> = {};
+  for (const route of ["vapi", "whapi", "shipments"] as WebhookRoute[]) {
+    out[route] = { mode: routeConfig(route).mode, ...statsFor(route) };
+  }
+  return out;
+}
+
+// --- Replay protection ---
+
+const seenNonces = new Map<string, number>(); // nonce → expiry (ms)
+
+function sweepNonces() {
+  const now = Date.now();
+  for (const [nonce, expires] of seenNonces) if (expires < now) seenNonces.delete(nonce);
+}
+
+setInterval(sweepNonces, 60_000).unref();
+
+// Accepts unix seconds, unix milliseconds or an ISO date
+function parseTimestamp(raw: string): number | undefined {
+  if (/^\d+$/.test(raw)) {
+    const n = Number(raw);
+    return n < 1e12 ? n * 1000 : n;
+  }
+  const ms = Date.parse(raw);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+// --- Checks ---
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+export function signPayload(key: string, timestamp: string, body: string | Buffer): string {
+  return createHmac("sha256", key).update(`${timestamp}.`).update(body).digest("hex");
+}
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function verify(req: RawBodyRequest, config: WebhookRouteConfig): RejectReason | undefined {
+  if (!config.secret && !config.token && !config.hmac) return "not_configured";
+
+  if (config.secret) {
+    const given = header(req, config.secret.header);
+    if (!given) return "missing_secret";
+    if (!safeEqual(given, config.secret.value)) return "bad_secret";
+  }
+
+  if (config.token) {
+    const auth = header(req, "authorization")?.replace(/^Bearer\s+/i, "");
+    const query = req.query[config.token.query];
+    const given = header(req, config.token.header) || (typeof query === "string" ? query : undefined) || auth;
+    if (!given) return "missing_token";
+    if (!safeEqual(given, config.token.value)) return "bad_token";
+  }
+
+  if (config.hmac) {
+    const signature = header(req, config.hmac.header)?.replace(/^sha256=/, "");
+    const timestamp = header(req, config.hmac.timestampHeader);
+    if (!signature || !timestamp) return "missing_signature";
+
+    const sentAt = parseTimestamp(timestamp);
+    if (sentAt === undefined || Math.abs(Date.now() - sentAt) > toleranceSeconds() * 1000) return "stale_timestamp";
+
+    const expected = signPayload(config.hmac.key, timestamp, req.rawBody || Buffer.alloc(0));
+    if (!safeEqual(signature, expected)) return "bad_signature";
+
+    // The signature is unique per body + timestamp, so it is always tracked;
+    // an explicit nonce header is tracked on top when the sender provides one
+    const keys = [`${config.route}:sig:${signature}`];
+    const nonce = header(req, config.hmac.nonceHeader);
+    if (nonce) keys.push(`${config.route}:nonce:${nonce}`);
+    if (keys.some((k) => seenNonces.has(k))) return "replayed_nonce";
+    const expires = Date.now() + toleranceSeconds() * 2000;
+    for (const k of keys) seenNonces.set(k, expires);
+  }
+
+  return undefined;
+}
+
+export function verifyWebhook(route: WebhookRoute): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const config = routeConfig(route);
+    if (config.mode === "off") return next();
+
+    const reason = verify(req as RawBodyRequest, config);
+    const entry = statsFor(route);
+    if (!reason) {
+      entry.accepted++;
+      return next();
+    }
+
+    entry.rejected++;
+    entry.reasons[reason] = (entry.reasons[reason] || 0) + 1;
+    entry.lastRejectedAt = new Date().toISOString();
+    entry.lastReason = reason;
+    console.warn(
+      `[webhook-auth] ${config.mode === "report" ? "Would reject" : "Rejected"} ${req.method} ${req.path} (${route}): ${reason} from ${req.ip}`
+    );
+
+    if (config.mode === "report") return next();
+    if (reason === "not_configured") {
+      res.status(503).json({ error: `${route} webhook auth not configured`, reason });
+      return;
+    }
+    res.status(401).json({ error: "unauthorized", reason });
+  };
+}
+
+// Startup hint so an unprotected production deploy doesn't go unnoticed
+export function logWebhookAuthConfig() {
+  for (const route of ["vapi", "whapi", "shipments"] as WebhookRoute[]) {
+    const config = routeConfig(route);
+    const checks = [config.secret && "secret", config.hmac && "hmac", config.token && "token"].filter(Boolean);
+    if (config.mode === "off") console.warn(`[webhook-auth] ${route} webhooks are NOT verified`);
+    else if (!checks.length) console.warn(`[webhook-auth] ${route}: no credentials set — every webhook will be refused`);
+    else console.log(`[webhook-auth] ${route}: ${config.mode} (${checks.join(", ") || "no credentials"})`);
+  }
+}
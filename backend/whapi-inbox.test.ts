@@ -0,0 +1,50 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { WhapiMessage } from "./types.js";
+
+// The inbox loads its store on import, so seed a state left behind by a restart first
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "whapi-inbox-"));
+process.env.DATA_DIR = dir;
+
+const message = (id: string): WhapiMessage => ({
+  id,
+  from: "971500000001",
+  chat_id: "971500000001@s.whatsapp.net",
+  type: "text",
+  text: { body: `message ${id}` },
+  timestamp: Math.floor(Date.now() / 1000),
+});
+const now = Date.now();
+fs.writeFileSync(
+  path.join(dir, "whapi-processed.json"),
+  JSON.stringify({
+    cut_off: { status: "queued", chatId: "971500000001@s.whatsapp.net", receivedAt: now, message: message("cut_off") },
+    legacy: { status: "queued", chatId: "971500000001@s.whatsapp.net", receivedAt: now },
+    answered: { status: "done", chatId: "971500000001@s.whatsapp.net", receivedAt: now },
+    errored: { status: "failed", chatId: "971500000001@s.whatsapp.net", receivedAt: now, error: "boom" },
+  })
+);
+
+let inbox: typeof import("./whapi-inbox.js");
+before(async () => {
+  inbox = await import("./whapi-inbox.js");
+});
+
+test("resumes messages a restart cut off instead of treating them as answered", async () => {
+  const handled: string[] = [];
+  assert.equal(inbox.resumeInterrupted(async (msg) => void handled.push(msg.id)), 1);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.deepEqual(handled, ["cut_off"]);
+});
+
+test("only skips messages that were answered or are in flight", () => {
+  const result = inbox.enqueueMessages([message("answered"), message("errored"), message("legacy")], async () => {});
+  assert.equal(result.queued, 2);
+  assert.equal(result.skipped.duplicate, 1);
+
+  const retry = inbox.enqueueMessages([message("legacy")], async () => {});
+  assert.equal(retry.skipped.duplicate, 1);
+});
@@ -0,0 +1,158 @@
+import { loadJson, saveJson } from "./storage.js";
+import { parseWhatsAppInputs } from "./integrations.js";
+import type { WhapiMessage } from "./types.js";
+
+// --- Whapi inbound queue ---
+// The webhook acks straight away and hands messages to this queue. Each message
+// ID is processed at most once (Whapi retries slow or failed deliveries), our own
+// outgoing messages and group chats are dropped, and messages from one chat run
+// strictly one after another so replies never interleave. Queued messages are
+// kept until they finish, so a restart mid-queue picks them up again.
+
+export type InboxSkipReason = "duplicate" | "from_me" | "group" | "unsupported";
+
+export interface ProcessedMessage {
+  status: "queued" | "done" | "failed";
+  chatId: string;
+  receivedAt: number;
+  error?: string;
+  message?: WhapiMessage; // held only while queued, for resuming after a restart
+}
+
+export interface EnqueueResult {
+  queued: number;
+  skipped: Partial<Record<InboxSkipReason, number>>;
+}
+
+const STORE = "whapi-processed";
+const MAX_ENTRIES = 10_000;
+
+const processed: Record<string, ProcessedMessage> = loadJson(STORE, {});
+// Entries still "queued" on load were cut off by a restart; they are either
+// resumed or forgotten, never treated as answered
+const interrupted = Object.entries(processed).filter(([, entry]) => entry.status === "queued");
+const chains = new Map<string, Promise<void>>();
+const pending = new Map<string, number>(); // chatId → messages waiting or running
+const counters = { queued: 0, done: 0, failed: 0, skipped: {} as Partial<Record<InboxSkipReason, number>> };
+
+function ttlMs(): number {
+  return (Number(process.env.WHAPI_DEDUP_TTL_HOURS) || 24) * 3_600_000;
+}
+
+function persist() {
+  const cutoff = Date.now() - ttlMs();
+  const ids = Object.keys(processed);
+  for (const id of ids) if (processed[id].receivedAt < cutoff) delete processed[id];
+  const remaining = Object.keys(processed);
+  if (remaining.length > MAX_ENTRIES) {
+    remaining
+      .sort((a, b) => processed[a].receivedAt - processed[b].receivedAt)
+      .slice(0, remaining.length - MAX_ENTRIES)
+      .forEach((id) => delete processed[id]);
+  }
+  saveJson(STORE, processed);
+}
+
+function isGroupChat(chatId: string): boolean {
+  return /@(g\.us|newsletter|broadcast)$/.test(chatId) || chatId.startsWith("status@");
+}
+
+function skipReason(msg: WhapiMessage): InboxSkipReason | undefined {
+  if (msg.from_me) return "from_me";
+  if (isGroupChat(msg.chat_id) && process.env.WHAPI_ALLOW_GROUPS !== "true") return "group";
+  // A failed message may be retried by Whapi; done and in-flight ones may not
+  const seen = processed[msg.id];
+  if (seen && seen.status !== "failed") return "duplicate";
+  if (!parseWhatsAppInputs(msg).length) return "unsupported";
+  return undefined;
+}
+
+// Chain onto the chat's previous work; a failure never blocks the next message
+function runInOrder(chatId: string, task: () => Promise<void>) {
+  const previous = chains.get(chatId) || Promise.resolve();
+  pending.set(chatId, (pending.get(chatId) || 0) + 1);
+  const next = previous.then(task).finally(() => {
+    const left = (pending.get(chatId) || 1) - 1;
+    if (left) pending.set(chatId, left);
+    else pending.delete(chatId);
+    if (chains.get(chatId) === next) chains.delete(chatId);
+  });
+  chains.set(chatId, next);
+}
+
+export function enqueueMessages(
+  messages: WhapiMessage[],
+  handler: (msg: WhapiMessage) => Promise<void>
+): EnqueueResult {
+  const result: EnqueueResult = { queued: 0, skipped: {} };
+  // A batch can arrive out of order; handle each chat oldest-first
+  const ordered = [...messages].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+
+  for (const msg of ordered) {
+    const reason = skipReason(msg);
+    if (reason) {
+      result.skipped[reason] = (result.skipped[reason] || 0) + 1;
+      counters.skipped[reason] = (counters.skipped[reason] || 0) + 1;
+      if (reason !== "unsupported") console.log(`[whapi-inbox] Skipped ${msg.id} in ${msg.chat_id}: ${reason}`);
+      continue;
+    }
+
+    // Claimed before processing starts, so a retry that lands mid-reply is a duplicate too
+    const entry: ProcessedMessage = { status: "queued", chatId: msg.chat_id, receivedAt: Date.now(), message: msg };
+    processed[msg.id] = entry;
+    result.queued++;
+    runMessage(msg, entry, handler);
+  }
+
+  if (result.queued) persist();
+  return result;
+}
+
+function runMessage(msg: WhapiMessage, entry: ProcessedMessage, handler: (msg: WhapiMessage) => Promise<void>) {
+  counters.queued++;
+  runInOrder(msg.chat_id, async () => {
+    try {
+      await handler(msg);
+      entry.status = "done";
+      counters.done++;
+    } catch (err) {
+      entry.status = "failed";
+      entry.error = (err as Error).message;
+      counters.failed++;
+      console.error(`[whapi-inbox] Processing ${msg.id} from ${msg.from} failed:`, err);
+    } finally {
+      delete entry.message;
+      persist();
+    }
+  });
+}
+
+// Re-run messages a restart cut off; called once at startup. Entries saved
+// before messages were kept can't be replayed and are dropped so a Whapi
+// retry of them is processed instead of skipped.
+export function resumeInterrupted(handler: (msg: WhapiMessage) => Promise<void>): number {
+  let resumed = 0;
+  // Oldest first, so each chat's messages resume in their original order
+  const pendingEntries = interrupted.splice(0).sort(([, a], [, b]) => a.receivedAt - b.receivedAt);
+  for (const [id, entry] of pendingEntries) {
+    if (processed[id] !== entry) continue;
+    if (!entry.message) {
+      delete processed[id];
+      continue;
+    }
+    runMessage(entry.message, entry, handler);
+    resumed++;
+  }
+  if (resumed) console.log(`[whapi-inbox] Resuming ${resumed} message(s) interrupted by a restart`);
+  persist();
+  return resumed;
+}
+
+export function getInboxStats() {
+  return {
+    ...counters,
+    activeChats: pending.size,
+    waiting: [...pending.values()].reduce((sum, n) => sum + n, 0),
+    tracked: Object.keys(processed).length,
+  };
+}
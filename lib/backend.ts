@@ -0,0 +1,17 @@
+import type { NextRequest } from "next/server";
+
+// Headers for proxying to the Express backend. A caller's own credentials are
+// forwarded as-is; otherwise fall back to BACKEND_API_KEY, which should be a
+// viewer/operator key so admin actions like /reset still need the caller's key.
+export function backendHeaders(req?: NextRequest): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const authorization = req?.headers.get("authorization");
+  const apiKey = req?.headers.get("x-api-key");
+
+  if (authorization) headers.Authorization = authorization;
+  else if (apiKey) headers["x-api-key"] = apiKey;
+  else if (process.env.BACKEND_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.BACKEND_API_KEY}`;
+  }
+  return headers;
+}